@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_STATE_COOKIE, getAuthProviderConfig, getSafeCallbackUrl } from '@/app/utils/auth';
+import { SESSION_COOKIE, SESSION_MAX_AGE, createSessionToken, verifyValue } from '@/app/utils/session';
+
+// GET /api/auth/callback?code=...&state=... finishes signing in: trades the
+// code for the provider's user info and stores it in the session cookie
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams, origin } = request.nextUrl;
+    const saved = await verifyValue<{ state: string; callbackUrl: string }>(
+      'auth-state',
+      request.cookies.get(AUTH_STATE_COOKIE)?.value
+    );
+    const code = searchParams.get('code');
+    if (!saved || !code || saved.state !== searchParams.get('state')) {
+      return NextResponse.json({ error: 'Sign-in expired or was tampered with, please try again' }, { status: 400 });
+    }
+
+    const provider = getAuthProviderConfig();
+    const tokenResponse = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: new URL('/api/auth/callback', origin).toString(),
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+      }),
+    });
+    if (!tokenResponse.ok) {
+      throw new Error(`Token request failed: ${await tokenResponse.text()}`);
+    }
+    const { access_token: accessToken } = await tokenResponse.json();
+
+    const userinfoResponse = await fetch(provider.userinfoUrl, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+    });
+    if (!userinfoResponse.ok) {
+      throw new Error(`Userinfo request failed: ${await userinfoResponse.text()}`);
+    }
+    const profile = await userinfoResponse.json();
+    if (!profile.sub || !profile.email) {
+      throw new Error('The identity provider did not return a user id and email');
+    }
+    // Board members are matched by email, so an unverified one could claim
+    // someone else's invitation
+    if (profile.email_verified !== true) {
+      return NextResponse.json(
+        { error: 'Your email address is not verified with the identity provider' },
+        { status: 403 }
+      );
+    }
+
+    const response = NextResponse.redirect(new URL(getSafeCallbackUrl(saved.callbackUrl), origin));
+    response.cookies.set(SESSION_COOKIE, await createSessionToken({
+      id: String(profile.sub),
+      name: profile.name || profile.email,
+      email: profile.email,
+      avatar: profile.picture,
+    }), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_MAX_AGE,
+    });
+    response.cookies.delete({ name: AUTH_STATE_COOKIE, path: '/api/auth' });
+    return response;
+  } catch (error) {
+    console.error('Error in sign-in callback route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sign-in failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/app/utils/auth';
+
+// GET /api/auth/session returns the signed-in user, or { user: null }
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    return NextResponse.json({ user }, { status: 200 });
+  } catch (error) {
+    console.error('Error in session route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_STATE_COOKIE, getAuthProviderConfig, getSafeCallbackUrl } from '@/app/utils/auth';
+import { signValue } from '@/app/utils/session';
+
+const AUTH_STATE_MAX_AGE = 10 * 60; // seconds to finish signing in
+
+// GET /api/auth/signin?callbackUrl=/board/... sends the browser to the
+// identity provider. The provider redirects back to /api/auth/callback.
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getAuthProviderConfig();
+    const state = crypto.randomUUID();
+    const callbackUrl = getSafeCallbackUrl(request.nextUrl.searchParams.get('callbackUrl'));
+
+    const authorizeUrl = new URL(provider.authorizeUrl);
+    authorizeUrl.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: new URL('/api/auth/callback', request.nextUrl.origin).toString(),
+      scope: provider.scope,
+      state,
+    }).toString();
+
+    const response = NextResponse.redirect(authorizeUrl);
+    response.cookies.set(AUTH_STATE_COOKIE, await signValue('auth-state', { state, callbackUrl }, AUTH_STATE_MAX_AGE), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth',
+      maxAge: AUTH_STATE_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error in sign-in route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sign-in failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/app/utils/session';
+
+// POST /api/auth/signout clears the session and returns to the dashboard,
+// which sends the browser back through sign-in
+export async function POST(request: NextRequest) {
+  const response = NextResponse.redirect(new URL('/', request.nextUrl.origin), 303);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
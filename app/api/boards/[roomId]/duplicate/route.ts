@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { createRoomBackup, saveBoard } from '@/app/utils/s3-upload';
+import type { CanvasState } from '@/app/utils/s3-upload';
+import { getRoomStorage, replaceRoomStorage } from '@/app/utils/liveblocks-server';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+
+// POST /api/boards/:roomId/duplicate copies the board's live content into a
+// new board owned by the user. Anyone who can view a board may copy it. This
+// needs LIVEBLOCKS_SECRET_KEY.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+
+    const { user, board: source } = await requireBoardRole(request, roomId, 'viewer');
+
+    // Boards that were never opened have no storage yet
+    const storage = await getRoomStorage(roomId);
+    const content = {
+      images: storage?.images ?? [],
+      shapes: storage?.shapes ?? [],
+      lines: storage?.lines ?? [],
+      texts: storage?.texts ?? [],
+    };
+
+    const now = new Date().toISOString();
+    const board = await saveBoard({
+      id: uuidv4(),
+      name: `Copy of ${source.name}`,
+      createdAt: now,
+      updatedAt: now,
+      ownerId: user.id,
+      members: [],
+    });
+    await replaceRoomStorage(board.id, content);
+    // Gives the copy a thumbnail before anyone opens it
+    await createRoomBackup(board.id, content as CanvasState);
+
+    return NextResponse.json({ board: { ...board, role: 'owner' } }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in board duplicate route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to duplicate board' },
+      { status: 500 }
+    );
+  }
+}
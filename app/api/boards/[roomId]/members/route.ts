@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveBoard } from '@/app/utils/s3-upload';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+import { MEMBER_ROLES, MemberRole, normalizeEmail } from '@/app/utils/board-access';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+// PUT /api/boards/:roomId/members with { email, role } invites someone as an
+// editor or viewer, or changes their role; role null removes them. Only the
+// owner manages members. Open tokens keep working until they expire.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+    const { board } = await requireBoardRole(request, roomId, 'owner');
+
+    const { email, role } = await request.json().catch(() => ({}));
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+    if (role !== null && !MEMBER_ROLES.includes(role)) {
+      return NextResponse.json({ error: `role must be one of ${MEMBER_ROLES.join(', ')} or null` }, { status: 400 });
+    }
+
+    const normalized = normalizeEmail(email);
+    const members = (board.members ?? []).filter((member) => member.email !== normalized);
+    if (role) members.push({ email: normalized, role: role as MemberRole });
+
+    const updated = await saveBoard({ ...board, members });
+    return NextResponse.json({ board: { ...updated, role: 'owner' } }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in board members route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update members' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBoardFiles, saveBoard } from '@/app/utils/s3-upload';
+import { deleteRoom } from '@/app/utils/liveblocks-server';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+
+const MAX_NAME_LENGTH = 100;
+
+// PATCH /api/boards/:roomId with { name } renames the board. Editors may rename.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+
+    const { name } = await request.json().catch(() => ({}));
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Name must be between 1 and ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { board, role } = await requireBoardRole(request, roomId, 'editor');
+    const renamed = await saveBoard({ ...board, name: trimmed });
+    return NextResponse.json({
+      board: { ...renamed, role, members: role === 'owner' ? renamed.members : undefined },
+    }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in board route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rename board' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/boards/:roomId deletes the board's Liveblocks room, its backups
+// and its metadata. Only the owner may delete. This needs LIVEBLOCKS_SECRET_KEY.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+
+    await requireBoardRole(request, roomId, 'owner');
+
+    // The room goes first, so a failure leaves the board listed and retryable
+    await deleteRoom(roomId);
+    await deleteBoardFiles(roomId);
+    return NextResponse.json({ deleted: roomId }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in board route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete board' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBoard, saveBoard } from '@/app/utils/s3-upload';
+import { verifyValue } from '@/app/utils/session';
+import { AccessError, ROOM_ID_PATTERN, requireUser } from '@/app/utils/auth';
+import { ShareLink, addLinkMember, getBoardRole, normalizeEmail } from '@/app/utils/board-access';
+
+// POST /api/boards/:roomId/share-links/redeem with { token } adds the
+// signed-in user to the board with the role the link grants, and returns the
+// role they end up with
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+    const user = await requireUser(request);
+    const { token } = await request.json().catch(() => ({}));
+
+    const board = await getBoard(roomId);
+    const link = await verifyValue<ShareLink>('share-link', typeof token === 'string' ? token : null);
+    if (!board || !link || link.roomId !== roomId || link.version !== (board.shareVersion ?? 0)) {
+      return NextResponse.json({ error: 'This share link is invalid, expired or revoked' }, { status: 403 });
+    }
+
+    // Owners, and everyone on boards without an owner, already have access
+    let updated = board;
+    if (board.ownerId && board.ownerId !== user.id) {
+      const members = board.members ?? [];
+      const joined = addLinkMember(members, {
+        email: normalizeEmail(user.email),
+        role: link.role,
+        ...(link.expiresAt && { expiresAt: link.expiresAt }),
+      });
+      if (joined !== members) {
+        updated = await saveBoard({ ...board, members: joined });
+      }
+    }
+    return NextResponse.json({ role: getBoardRole(updated, user) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in share link redeem route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to open share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveBoard } from '@/app/utils/s3-upload';
+import { signValue } from '@/app/utils/session';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+import { MEMBER_ROLES, SHARE_LINK_EXPIRIES, ShareLink, canShareAs } from '@/app/utils/board-access';
+
+// POST /api/boards/:roomId/share-links with { role, expiresIn } returns a
+// signed link that makes whoever opens it a viewer or editor of the board.
+// expiresIn is one of SHARE_LINK_EXPIRIES in seconds, or null for no expiry.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+
+    const { role, expiresIn } = await request.json().catch(() => ({}));
+    if (!MEMBER_ROLES.includes(role)) {
+      return NextResponse.json({ error: `role must be one of ${MEMBER_ROLES.join(', ')}` }, { status: 400 });
+    }
+    if (!SHARE_LINK_EXPIRIES.some(({ seconds }) => seconds === (expiresIn ?? null))) {
+      return NextResponse.json({ error: 'Unsupported expiry' }, { status: 400 });
+    }
+
+    const { board, role: userRole } = await requireBoardRole(request, roomId, 'viewer');
+    if (!canShareAs(userRole, role)) {
+      throw new AccessError(`You can't share this board as ${role}`, 403);
+    }
+
+    const maxAge = expiresIn ?? undefined;
+    const link: ShareLink = {
+      roomId,
+      role,
+      version: board.shareVersion ?? 0,
+      ...(maxAge && { expiresAt: new Date(Date.now() + maxAge * 1000).toISOString() }),
+    };
+    const token = await signValue('share-link', link, maxAge);
+
+    const url = new URL(`/board/${encodeURIComponent(roomId)}`, request.nextUrl.origin);
+    url.searchParams.set('share', token);
+    return NextResponse.json({ url: url.toString(), expiresAt: link.expiresAt ?? null }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in share links route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/boards/:roomId/share-links revokes every link shared so far.
+// People who already joined through one stay members. Owner only.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+    const { board } = await requireBoardRole(request, roomId, 'owner');
+    await saveBoard({ ...board, shareVersion: (board.shareVersion ?? 0) + 1 });
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in share links route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke share links' },
+      { status: 500 }
+    );
+  }
+}
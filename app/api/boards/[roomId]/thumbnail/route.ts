@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRoomBackup } from '@/app/utils/s3-upload';
+import { renderBoard } from '@/app/utils/board-render';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+
+const THUMBNAIL_SIZE = { width: 320, height: 200 };
+
+// GET /api/boards/:roomId/thumbnail renders a small PNG of the latest backup.
+// The dashboard adds ?v=<updatedAt>, so each version can be cached for good.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid board id' }, { status: 400 });
+    }
+    await requireBoardRole(request, roomId, 'viewer');
+
+    const board = await loadRoomBackup(roomId);
+    const elementCount = board
+      ? board.images.length + board.shapes.length + board.lines.length + (board.texts?.length ?? 0)
+      : 0;
+    if (!board || elementCount === 0) {
+      return NextResponse.json({ error: `Nothing to show for board ${roomId}` }, { status: 404 });
+    }
+
+    const { body, contentType } = await renderBoard(board, { format: 'png', fit: THUMBNAIL_SIZE });
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': request.nextUrl.searchParams.has('v')
+          ? 'private, max-age=31536000, immutable'
+          : 'no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in board thumbnail route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to render thumbnail' },
+      { status: 500 }
+    );
+  }
+}
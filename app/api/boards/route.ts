@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { listBoards, saveBoard } from '@/app/utils/s3-upload';
+import { AccessError, requireUser } from '@/app/utils/auth';
+import { getBoardRole } from '@/app/utils/board-access';
+
+const MAX_NAME_LENGTH = 100;
+
+// GET /api/boards lists the boards the user can open with their role, most
+// recently modified first. Only owners see the member list.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const boards = (await listBoards()).flatMap((board) => {
+      const role = getBoardRole(board, user);
+      if (!role) return [];
+      return [{ ...board, role, members: role === 'owner' ? board.members : undefined }];
+    });
+    return NextResponse.json({ boards }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in boards route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list boards' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/boards with { name } creates an empty board owned by the user.
+// Its Liveblocks room is created when the board is first opened.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { name } = await request.json().catch(() => ({}));
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: `Name must be at most ${MAX_NAME_LENGTH} characters` }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const board = await saveBoard({
+      id: uuidv4(),
+      name: trimmed || 'Untitled board',
+      createdAt: now,
+      updatedAt: now,
+      ownerId: user.id,
+      members: [],
+    });
+    return NextResponse.json({ board: { ...board, role: 'owner' } }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in boards route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create board' },
+      { status: 500 }
+    );
+  }
+}
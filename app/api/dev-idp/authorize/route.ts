@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { signValue } from '@/app/utils/session';
+
+// Local stand-in identity provider for development and tests, enabled with
+// AUTH_DEV_IDP=true. It asks for a name and email instead of a password.
+const CODE_MAX_AGE = 60; // seconds
+
+const isEnabled = () => process.env.AUTH_DEV_IDP === 'true';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// GET /api/dev-idp/authorize shows the sign-in form
+export async function GET(request: NextRequest) {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const hidden = ['redirect_uri', 'state', 'client_id']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(searchParams.get(name) ?? '')}">`)
+    .join('');
+  const html = `<!doctype html>
+<html>
+  <head><title>Dev sign-in</title><meta name="viewport" content="width=device-width"></head>
+  <body style="font-family: sans-serif; max-width: 320px; margin: 80px auto">
+    <h1 style="font-size: 20px">Dev sign-in</h1>
+    <p style="color: #6b7280; font-size: 14px">Local stand-in identity provider. Any name and email work.</p>
+    <form method="post" style="display: flex; flex-direction: column; gap: 8px">
+      ${hidden}
+      <input name="name" placeholder="Name" required>
+      <input name="email" type="email" placeholder="Email" required>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`;
+  return new NextResponse(html, { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+// POST /api/dev-idp/authorize signs the user in and redirects back with a code
+export async function POST(request: NextRequest) {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const form = await request.formData();
+  const name = String(form.get('name') ?? '').trim();
+  const email = String(form.get('email') ?? '').trim().toLowerCase();
+  const redirectUri = String(form.get('redirect_uri') ?? '');
+  if (!name || !email) {
+    return NextResponse.json({ error: 'Name and email are required' }, { status: 400 });
+  }
+
+  // Only hand codes back to this app
+  let redirectUrl: URL;
+  try {
+    redirectUrl = new URL(redirectUri);
+  } catch {
+    return NextResponse.json({ error: 'Invalid redirect_uri' }, { status: 400 });
+  }
+  if (redirectUrl.origin !== request.nextUrl.origin) {
+    return NextResponse.json({ error: 'redirect_uri must point at this app' }, { status: 400 });
+  }
+
+  const code = await signValue(
+    'dev-idp-code',
+    { sub: `dev-${email}`, name, email, clientId: String(form.get('client_id') ?? '') },
+    CODE_MAX_AGE
+  );
+  redirectUrl.searchParams.set('code', code);
+  redirectUrl.searchParams.set('state', String(form.get('state') ?? ''));
+  return NextResponse.redirect(redirectUrl, 303);
+}
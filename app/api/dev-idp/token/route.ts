@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { signValue, verifyValue } from '@/app/utils/session';
+
+const ACCESS_TOKEN_MAX_AGE = 5 * 60; // seconds
+
+interface DevIdpCode {
+  sub: string;
+  name: string;
+  email: string;
+  clientId: string;
+}
+
+// POST /api/dev-idp/token trades a code from the stand-in provider for an
+// access token, checking the client credentials like a real provider would
+export async function POST(request: NextRequest) {
+  if (process.env.AUTH_DEV_IDP !== 'true') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const form = await request.formData();
+  if (
+    form.get('grant_type') !== 'authorization_code' ||
+    form.get('client_id') !== process.env.AUTH_CLIENT_ID ||
+    form.get('client_secret') !== process.env.AUTH_CLIENT_SECRET
+  ) {
+    return NextResponse.json({ error: 'invalid_client' }, { status: 401 });
+  }
+
+  const code = await verifyValue<DevIdpCode>('dev-idp-code', String(form.get('code') ?? ''));
+  if (!code || code.clientId !== form.get('client_id')) {
+    return NextResponse.json({ error: 'invalid_grant' }, { status: 400 });
+  }
+
+  const { sub, name, email } = code;
+  return NextResponse.json({
+    access_token: await signValue('dev-idp-token', { sub, name, email }, ACCESS_TOKEN_MAX_AGE),
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_MAX_AGE,
+  }, { status: 200 });
+}
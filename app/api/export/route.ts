@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRoomBackup } from '@/app/utils/s3-upload';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+import { MAX_EXPORT_PIXELS, renderBoard } from '@/app/utils/board-render';
+import { BoardContent, ExportFormat } from '@/app/utils/board-export';
+import { Bounds } from '@/app/utils/canvas-geometry';
+
+const FORMATS: ExportFormat[] = ['png', 'svg', 'pdf'];
+
+interface ExportParams {
+  format: ExportFormat;
+  ids?: string[];
+  bounds?: Bounds;
+  pixelRatio?: number;
+}
+
+async function exportBoard(board: BoardContent, params: ExportParams, filename: string) {
+  const { body, contentType } = await renderBoard(board, params);
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}.${params.format}"`,
+    },
+  });
+}
+
+function parseParams(searchParams: URLSearchParams): ExportParams {
+  const format = (searchParams.get('format') || 'png') as ExportFormat;
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Unsupported format "${format}", expected one of ${FORMATS.join(', ')}`);
+  }
+
+  const ids = searchParams.get('ids')?.split(',').filter(Boolean);
+
+  // Viewport export: bounds=x,y,width,height in canvas coordinates
+  let bounds: Bounds | undefined;
+  const boundsParam = searchParams.get('bounds');
+  if (boundsParam) {
+    const [x, y, width, height] = boundsParam.split(',').map(Number);
+    if ([x, y, width, height].some((value) => !Number.isFinite(value)) || width <= 0 || height <= 0) {
+      throw new Error('Invalid bounds, expected x,y,width,height');
+    }
+    if (width * height > MAX_EXPORT_PIXELS) {
+      throw new Error(`bounds cover more than ${MAX_EXPORT_PIXELS} canvas units`);
+    }
+    bounds = { x, y, width, height };
+  }
+
+  const pixelRatio = searchParams.has('pixelRatio') ? Number(searchParams.get('pixelRatio')) : undefined;
+
+  return { format, ids, bounds, pixelRatio };
+}
+
+// GET /api/export?roomId=...&format=png|svg|pdf[&ids=a,b][&bounds=x,y,w,h][&pixelRatio=2]
+// Renders the room's stored backup, e.g. for automated thumbnails.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const roomId = searchParams.get('roomId');
+    if (!roomId) {
+      return NextResponse.json({ error: 'roomId is required' }, { status: 400 });
+    }
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid roomId' }, { status: 400 });
+    }
+    await requireBoardRole(request, roomId, 'viewer');
+
+    let params: ExportParams;
+    try {
+      params = parseParams(searchParams);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    const board = await loadRoomBackup(roomId);
+    if (!board) {
+      return NextResponse.json({ error: `No stored state for room ${roomId}` }, { status: 404 });
+    }
+
+    return await exportBoard(board, params, roomId);
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in export route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/export?format=... with board JSON ({ images, shapes, lines, texts }) as the body
+export async function POST(request: NextRequest) {
+  try {
+    let params: ExportParams;
+    try {
+      params = parseParams(request.nextUrl.searchParams);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    const board = await request.json() as BoardContent;
+    if (!Array.isArray(board.images) || !Array.isArray(board.shapes) || !Array.isArray(board.lines)) {
+      return NextResponse.json({ error: 'Body must contain images, shapes and lines arrays' }, { status: 400 });
+    }
+
+    return await exportBoard(board, params, 'board');
+  } catch (error) {
+    console.error('Error in export route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
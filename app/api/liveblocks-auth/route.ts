@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccessError, ROOM_ID_PATTERN, requireUser } from '@/app/utils/auth';
+import { getBoardRole, hasBoardRole } from '@/app/utils/board-access';
+import { getBoard, saveBoard } from '@/app/utils/s3-upload';
+import { RoomPermission, authorizeUser, getRoomStorage } from '@/app/utils/liveblocks-server';
+
+// POST /api/liveblocks-auth with { room } issues a Liveblocks token for that
+// room only: editors and owners may write, viewers only read and show cursors
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    const { room } = await request.json().catch(() => ({}));
+    if (typeof room !== 'string' || !ROOM_ID_PATTERN.test(room)) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    let board = await getBoard(room);
+    if (!board) {
+      // Opening a new board by URL creates it. Rooms that were in use before
+      // boards had metadata stay open to everyone, see board-access. Those
+      // already have Liveblocks storage; most never got a backup.
+      const now = new Date().toISOString();
+      const isLegacyRoom = (await getRoomStorage(room)) !== null;
+      board = await saveBoard({
+        id: room,
+        name: isLegacyRoom ? room : 'Untitled board',
+        createdAt: now,
+        updatedAt: now,
+        ...(!isLegacyRoom && { ownerId: user.id, members: [] }),
+      });
+    }
+
+    const role = getBoardRole(board, user);
+    if (!role) {
+      return NextResponse.json({ error: `No access to board ${room}` }, { status: 403 });
+    }
+
+    const permissions: RoomPermission[] = hasBoardRole(role, 'editor')
+      ? ['room:write']
+      : ['room:read', 'room:presence:write'];
+    const token = await authorizeUser(
+      user.id,
+      { name: user.name, email: user.email, avatar: user.avatar, role },
+      { [room]: permissions }
+    );
+    return NextResponse.json({ token }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in liveblocks auth route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Authorization failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRoomBackup } from '@/app/utils/s3-upload';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+import { replaceRoomStorage } from '@/app/utils/liveblocks-server';
+import { BoardDocumentError, parseBoardDocument } from '@/app/utils/board-document';
+
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+// POST /api/rooms/:roomId/backups/:snapshotId/restore replaces the live room
+// storage with the snapshot. Connected clients pick up the restored board.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string; snapshotId: string }> }
+) {
+  try {
+    const { roomId, snapshotId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+    }
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return NextResponse.json({ error: 'Invalid snapshot id' }, { status: 400 });
+    }
+    await requireBoardRole(request, roomId, 'editor');
+
+    const backup = await loadRoomBackup(roomId, snapshotId);
+    if (!backup) {
+      return NextResponse.json({ error: `No snapshot ${snapshotId} for room ${roomId}` }, { status: 404 });
+    }
+
+    // Backups are stored as schema version 1 board state; migrate and validate
+    // them the same way as imported board files
+    let content;
+    try {
+      content = parseBoardDocument(backup).content;
+    } catch (error) {
+      if (error instanceof BoardDocumentError) {
+        return NextResponse.json({ error: `Snapshot is invalid: ${error.message}` }, { status: 422 });
+      }
+      throw error;
+    }
+
+    await replaceRoomStorage(roomId, { ...content });
+    return NextResponse.json({ restored: snapshotId }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in backup restore route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Restore failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRoomBackup } from '@/app/utils/s3-upload';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+// GET /api/rooms/:roomId/backups/:snapshotId returns the stored snapshot.
+// "latest" returns the newest one, falling back to the legacy backup file.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string; snapshotId: string }> }
+) {
+  try {
+    const { roomId, snapshotId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+    }
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return NextResponse.json({ error: 'Invalid snapshot id' }, { status: 400 });
+    }
+    await requireBoardRole(request, roomId, 'viewer');
+
+    const backup = await loadRoomBackup(roomId, snapshotId === 'latest' ? undefined : snapshotId);
+    if (!backup) {
+      return NextResponse.json({ error: `No snapshot ${snapshotId} for room ${roomId}` }, { status: 404 });
+    }
+    return NextResponse.json(backup, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in backup route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load backup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRoomBackup, listRoomBackups } from '@/app/utils/s3-upload';
+import type { CanvasState } from '@/app/utils/s3-upload';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
+
+// GET /api/rooms/:roomId/backups lists the room's snapshots, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+    }
+    await requireBoardRole(request, roomId, 'viewer');
+    const snapshots = await listRoomBackups(roomId);
+    return NextResponse.json({ snapshots }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in backups route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list backups' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/rooms/:roomId/backups with { content, minInterval? } snapshots the
+// board. Returns { snapshot: null } when the backup was skipped.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+    }
+    await requireBoardRole(request, roomId, 'editor');
+
+    const { content, minInterval } = await request.json();
+    if (!content || !Array.isArray(content.images) || !Array.isArray(content.shapes) || !Array.isArray(content.lines)) {
+      return NextResponse.json({ error: 'content must contain images, shapes and lines arrays' }, { status: 400 });
+    }
+
+    const snapshot = await createRoomBackup(roomId, content as CanvasState, {
+      minInterval: typeof minInterval === 'number' ? minInterval : undefined,
+    });
+    return NextResponse.json({ snapshot }, { status: snapshot ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in backups route:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Backup failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { uploadToS3 } from '@/app/utils/s3-upload';
+import { AccessError, ROOM_ID_PATTERN, requireBoardRole } from '@/app/utils/auth';
 
+// POST /api/upload with a file and the roomId of the board it is added to.
+// Only the board's editors and owner may upload.
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
+    const roomId = formData.get('roomId');
+    if (typeof roomId !== 'string' || !ROOM_ID_PATTERN.test(roomId)) {
+      return NextResponse.json({ error: 'A valid roomId is required' }, { status: 400 });
+    }
+    await requireBoardRole(request, roomId, 'editor');
+
     const url = await uploadToS3(formData);
     
     return NextResponse.json({ url }, { status: 200 });
   } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error in upload route:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Upload failed' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,77 @@
+'use client'
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import Canva from "../../components/canva";
+import LoadingSpinner from "../../components/ui/LoadingSpinner";
+import { LiveList } from "@liveblocks/client";
+import { RoomProvider } from "../../liveblocks.config";
+
+export default function BoardPage() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const router = useRouter();
+  const shareToken = useSearchParams().get("share");
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  // Opening a share link joins the board before connecting to its room, then
+  // drops the token from the address bar
+  useEffect(() => {
+    if (!shareToken) return;
+    let isCancelled = false;
+    fetch(`/api/boards/${encodeURIComponent(roomId)}/share-links/redeem`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: shareToken }),
+    })
+      .then(async (response) => {
+        if (isCancelled) return;
+        if (!response.ok) {
+          const { error } = await response.json().catch(() => ({ error: response.statusText }));
+          setShareError(error);
+          return;
+        }
+        router.replace(`/board/${encodeURIComponent(roomId)}`);
+      })
+      .catch((error) => !isCancelled && setShareError((error as Error).message));
+    return () => {
+      isCancelled = true;
+    };
+  }, [roomId, shareToken, router]);
+
+  if (shareError) {
+    return (
+      <main className="flex flex-col items-center justify-center gap-3 min-h-screen text-sm">
+        <p className="text-red-600">{shareError}</p>
+        <Link href="/" className="text-[#2100FF] hover:underline">Back to your boards</Link>
+      </main>
+    );
+  }
+  if (shareToken) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    // Keyed so switching boards starts from a fresh canvas
+    <RoomProvider
+      key={roomId}
+      id={roomId}
+      initialPresence={{
+        cursor: null,
+        lastUpdate: Date.now(),
+        name: "",
+        color: "",
+        viewport: null,
+        selectedIds: [],
+        editingIds: [],
+      }}
+      initialStorage={{
+        images: new LiveList([]),
+        shapes: new LiveList([]),
+        lines: new LiveList([]),
+        texts: new LiveList([])
+      }}
+    >
+      <Canva roomId={roomId} />
+    </RoomProvider>
+  );
+}
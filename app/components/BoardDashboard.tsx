@@ -0,0 +1,333 @@
+'use client'
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Copy, LayoutDashboard, LogOut, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+import LoadingSpinner from './ui/LoadingSpinner';
+import type { BoardMeta } from '@/app/utils/s3-upload';
+import type { SessionUser } from '@/app/utils/session';
+import { BoardRole, MEMBER_ROLES, MemberRole, hasBoardRole } from '@/app/utils/board-access';
+
+// Boards as listed by the API, with the signed-in user's role
+type BoardSummary = BoardMeta & { role: BoardRole };
+
+// Sends a JSON request to the boards API and unwraps its { error } on failure
+async function boardsRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/boards${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error);
+  }
+  return response.json();
+}
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+const TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+// "5 minutes ago", "yesterday", …
+const formatModified = (date: string) => {
+  const seconds = (new Date(date).getTime() - Date.now()) / 1000;
+  const match = TIME_UNITS.find(([, size]) => Math.abs(seconds) >= size);
+  return match
+    ? relativeTime.format(Math.round(seconds / match[1]), match[0])
+    : 'just now';
+};
+
+interface MembersPanelProps {
+  board: BoardSummary;
+  onUpdateMember: (board: BoardSummary, email: string, role: MemberRole | null) => Promise<void>;
+}
+
+// Owners invite people by email as editors or viewers
+const MembersPanel: React.FC<MembersPanelProps> = ({ board, onUpdateMember }) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('editor');
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    await onUpdateMember(board, email, role);
+    setEmail('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2 px-3 pb-3 text-sm">
+      {(board.members ?? []).map((member) => (
+        <div key={member.email} className="flex items-center gap-2">
+          <span className="flex-1 truncate" title={member.email}>{member.email}</span>
+          {member.expiresAt && (
+            // Joined through an expiring share link
+            <span className="text-xs text-gray-400" title={new Date(member.expiresAt).toLocaleString()}>
+              {new Date(member.expiresAt).getTime() > Date.now() ? `until ${new Date(member.expiresAt).toLocaleDateString()}` : 'expired'}
+            </span>
+          )}
+          <select
+            value={member.role}
+            onChange={(e) => onUpdateMember(board, member.email, e.target.value as MemberRole)}
+            className="border border-gray-300 rounded px-1"
+          >
+            {MEMBER_ROLES.map((item) => <option key={item} value={item}>{item}</option>)}
+          </select>
+          <button
+            onClick={() => onUpdateMember(board, member.email, null)}
+            title="Remove"
+            className="p-1 rounded text-gray-500 hover:bg-gray-100"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+      <form onSubmit={handleInvite} className="flex items-center gap-2">
+        <input
+          type="email"
+          value={email}
+          placeholder="Invite by email"
+          onChange={(e) => setEmail(e.target.value)}
+          className="flex-1 min-w-0 border border-gray-300 rounded px-1"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as MemberRole)}
+          className="border border-gray-300 rounded px-1"
+        >
+          {MEMBER_ROLES.map((item) => <option key={item} value={item}>{item}</option>)}
+        </select>
+        <button type="submit" className="px-2 rounded bg-[#2100FF] text-white hover:opacity-90">
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
+
+interface BoardCardProps {
+  board: BoardSummary;
+  onRename: (board: BoardSummary, name: string) => Promise<void>;
+  onDuplicate: (board: BoardSummary) => Promise<void>;
+  onDelete: (board: BoardSummary) => Promise<void>;
+  onUpdateMember: (board: BoardSummary, email: string, role: MemberRole | null) => Promise<void>;
+}
+
+const BoardCard: React.FC<BoardCardProps> = ({ board, onRename, onDuplicate, onDelete, onUpdateMember }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [name, setName] = useState(board.name);
+  const [hasThumbnail, setHasThumbnail] = useState(true);
+  const href = `/board/${encodeURIComponent(board.id)}`;
+
+  const commitRename = async () => {
+    setIsRenaming(false);
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === board.name) {
+      setName(board.name);
+      return;
+    }
+    await onRename(board, trimmed);
+  };
+
+  const iconButton = 'p-1.5 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-900';
+
+  return (
+    <div className="flex flex-col bg-white rounded-lg shadow-md overflow-hidden">
+      <Link href={href} className="flex items-center justify-center h-40 bg-gray-50 border-b border-gray-100">
+        {hasThumbnail ? (
+          // eslint-disable-next-line @next/next/no-img-element -- rendered on demand by our API
+          <img
+            src={`/api/boards/${encodeURIComponent(board.id)}/thumbnail?v=${encodeURIComponent(board.updatedAt)}`}
+            alt=""
+            className="max-w-full max-h-full object-contain"
+            onError={() => setHasThumbnail(false)}
+          />
+        ) : (
+          <LayoutDashboard size={32} className="text-gray-300" />
+        )}
+      </Link>
+      <div className="flex items-center gap-2 p-3">
+        <div className="flex flex-col flex-1 min-w-0">
+          {isRenaming ? (
+            <input
+              autoFocus
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') {
+                  setName(board.name);
+                  setIsRenaming(false);
+                }
+              }}
+              className="px-1 -mx-1 border border-gray-300 rounded"
+            />
+          ) : (
+            <Link href={href} className="truncate font-medium hover:underline" title={board.name}>
+              {board.name}
+            </Link>
+          )}
+          <span className="text-xs text-gray-500" title={new Date(board.updatedAt).toLocaleString()}>
+            Edited {formatModified(board.updatedAt)}
+            {board.role !== 'owner' && ` · ${board.role}`}
+          </span>
+        </div>
+        {hasBoardRole(board.role, 'editor') && (
+          <button onClick={() => setIsRenaming(true)} title="Rename" className={iconButton}>
+            <Pencil size={16} />
+          </button>
+        )}
+        <button onClick={() => onDuplicate(board)} title="Duplicate" className={iconButton}>
+          <Copy size={16} />
+        </button>
+        {board.role === 'owner' && (
+          <>
+            <button onClick={() => setShowMembers((prev) => !prev)} title="Members" className={iconButton}>
+              <Users size={16} />
+            </button>
+            <button onClick={() => onDelete(board)} title="Delete" className={iconButton}>
+              <Trash2 size={16} />
+            </button>
+          </>
+        )}
+      </div>
+      {showMembers && <MembersPanel board={board} onUpdateMember={onUpdateMember} />}
+    </div>
+  );
+};
+
+const BoardDashboard = () => {
+  const router = useRouter();
+  const [boards, setBoards] = useState<BoardSummary[] | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadBoards = useCallback(async () => {
+    try {
+      const { boards } = await boardsRequest<{ boards: BoardSummary[] }>('');
+      setBoards(boards);
+      setError(null);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBoards();
+    fetch('/api/auth/session')
+      .then((response) => response.json())
+      .then(({ user }) => setUser(user))
+      .catch((error) => console.error('Error loading session:', error));
+  }, [loadBoards]);
+
+  const replaceBoard = (updated: BoardSummary) =>
+    setBoards((prev) => prev?.map((item) => item.id === updated.id ? updated : item) ?? null);
+
+  // Failed actions are reported and leave the list as it was
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    setIsCreating(true);
+    try {
+      const { board } = await boardsRequest<{ board: BoardSummary }>('', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Untitled board' }),
+      });
+      router.push(`/board/${encodeURIComponent(board.id)}`);
+    } finally {
+      setIsCreating(false);
+    }
+  });
+
+  const handleRename = (board: BoardSummary, name: string) => runAction(async () => {
+    const { board: renamed } = await boardsRequest<{ board: BoardSummary }>(`/${encodeURIComponent(board.id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    });
+    replaceBoard(renamed);
+  });
+
+  const handleUpdateMember = (board: BoardSummary, email: string, role: MemberRole | null) => runAction(async () => {
+    const { board: updated } = await boardsRequest<{ board: BoardSummary }>(
+      `/${encodeURIComponent(board.id)}/members`,
+      { method: 'PUT', body: JSON.stringify({ email, role }) }
+    );
+    replaceBoard(updated);
+  });
+
+  const handleDuplicate = (board: BoardSummary) => runAction(async () => {
+    await boardsRequest(`/${encodeURIComponent(board.id)}/duplicate`, { method: 'POST' });
+    await loadBoards();
+  });
+
+  const handleDelete = (board: BoardSummary) => runAction(async () => {
+    if (!confirm(`Delete "${board.name}"? This can't be undone.`)) return;
+    await boardsRequest(`/${encodeURIComponent(board.id)}`, { method: 'DELETE' });
+    setBoards((prev) => prev?.filter((item) => item.id !== board.id) ?? null);
+  });
+
+  if (!boards && !error) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-6xl mx-auto flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold">Boards</h1>
+          <div className="flex items-center gap-3 text-sm">
+            {user && <span className="text-gray-500" title={user.email}>{user.name}</span>}
+            <form method="post" action="/api/auth/signout">
+              <button type="submit" title="Sign out" className="p-2 rounded-lg text-gray-500 hover:bg-gray-200">
+                <LogOut size={16} />
+              </button>
+            </form>
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-[#2100FF] text-white hover:opacity-90 disabled:opacity-50"
+            >
+              <Plus size={16} />
+              New board
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-red-600 text-sm">Could not load boards: {error}</p>}
+
+        {boards?.length === 0 && (
+          <p className="text-gray-500 text-sm">No boards yet. Create one to get started.</p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {boards?.map((board) => (
+            <BoardCard
+              key={board.id}
+              board={board}
+              onRename={handleRename}
+              onDuplicate={handleDuplicate}
+              onDelete={handleDelete}
+              onUpdateMember={handleUpdateMember}
+            />
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default BoardDashboard;
@@ -13,34 +13,137 @@ import {
   Stage,
   Layer,
   Circle,
-  Image as KonvaImage,
   Group,
   Rect,
   Line,
+  Transformer,
+  Label,
+  Tag,
+  Text,
 } from "react-konva";
 import type Konva from "konva";
 import { KonvaEventObject } from "konva/lib/Node";
+import type { Vector2d } from "konva/lib/types";
 
 import useImage from "use-image";
+import Link from "next/link";
+import { Eye, LayoutDashboard } from "lucide-react";
 import {
   useUpdateMyPresence,
   useOthers,
+  useSelf,
   useStorage,
   useMutation,
+  useHistory,
+  useCanUndo,
+  useCanRedo,
+  useBatch,
   Storage,
-  Presence
+  BoardState,
+  ImageElement,
+  ShapeElement,
+  LineElement,
+  TextElement,
+  ConnectorAnchor,
+  Presence,
+  UserMeta
 } from "../liveblocks.config";
 import { MutationContext } from "@liveblocks/react";
-import { BaseUserMeta } from "@liveblocks/client";
+import { LiveList, LiveObject } from "@liveblocks/client";
 
 // Import new components
 import LoadingSpinner from "./ui/LoadingSpinner";
 import { default as CanvasControlsComponent } from "./canva_components/CanvasControls";
 import Toolbar  from "./canva_components/Toolbar";
 import DraggableImage from "./canva_components/DraggableImage";
-
-import { ToolType, ShapeType } from "@/app/types/canvas";
-import { handleClientUpload, createRoomBackup, checkRoomBackupExists, loadRoomBackup } from "../utils/s3-upload";
+import EditableText, { measureTextBounds } from "./canva_components/EditableText";
+import TextEditor from "./canva_components/TextEditor";
+import PropertiesPanel from "./canva_components/PropertiesPanel";
+import ExportMenu, { ExportOptions, BoardImportMode } from "./canva_components/ExportMenu";
+import ShortcutsOverlay from "./canva_components/ShortcutsOverlay";
+import LayersPanel from "./canva_components/LayersPanel";
+import AlignPanel from "./canva_components/AlignPanel";
+import ShareMenu from "./canva_components/ShareMenu";
+import CollaboratorCursors from "./canva_components/CollaboratorCursors";
+import PresenceAvatars from "./canva_components/PresenceAvatars";
+import { DistanceBadge, SnapGuide, getDistanceBadges, snapMove, snapPoint } from "../utils/snapping";
+
+import { ToolType, ShapeType, TextType, ShapeStyle } from "@/app/types/canvas";
+import type { CanvasState, RoomBackupSnapshot } from "../utils/s3-upload";
+import {
+  createElementList,
+  createZIndexCounter,
+  syncConnectors,
+  syncElementList,
+} from "../utils/live-elements";
+import { ShortcutAction, findShortcut, isEditableTarget } from "../utils/shortcuts";
+import { MEMBER_ROLES, MemberRole, canShareAs } from "../utils/board-access";
+import { getPresenceColor } from "../utils/presence";
+import {
+  ArrangeAction,
+  arrangeElements,
+  getNextZIndex,
+  getOrderedElements,
+  moveElementsTo,
+} from "../utils/z-order";
+import {
+  countSelectionUnits,
+  createGroupId,
+  createGroupIdRemapper,
+  createGroupTrimmer,
+  expandToGroups,
+  getGroupMemberIds,
+  getSelectionGroupId,
+  groupElements,
+  ungroupElements,
+} from "../utils/groups";
+import {
+  AlignAction,
+  AlignItem,
+  DistributeAxis,
+  ItemOffsets,
+  alignItems,
+  distributeItems,
+  tidyUpItems,
+} from "../utils/align";
+import {
+  CONNECTOR_ANCHORS,
+  CONNECTOR_LABEL_FONT_SIZE,
+  addArrowHead,
+  detachConnectorEnds,
+  findAnchorAt,
+  getAnchorPoint,
+  getConnectableBounds,
+  getConnectorLabelPosition,
+  getRoutePoints,
+  isConnectorType,
+  layoutConnector,
+  remapConnectorEnds,
+} from "../utils/connectors";
+import {
+  Bounds,
+  getPointsBounds,
+  getRectCorners,
+  getShapeOrigin,
+  getShapeOutline,
+  isPointShape,
+  rectsIntersect,
+} from "../utils/canvas-geometry";
+import { getDroppedFiles, handleClientUpload, runWithConcurrency } from "../utils/upload-queue";
+import { eraseStroke, getStrokeOutline, simplifyStroke, smoothStroke } from "../utils/freehand";
+import { STICKY_SIZE, STICKY_FILL, TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from "../utils/text-style";
+import {
+  buildBoardSvg,
+  createImagePdf,
+  getExportPrimitives,
+  getPdfPageSize,
+  getPrimitivesBounds,
+} from "../utils/board-export";
+import {
+  BOARD_FILE_EXTENSION,
+  createBoardDocument,
+  parseBoardFile,
+} from "../utils/board-document";
 
 // -----------------------------------------------------------------------------
 // Utility Functions
@@ -57,6 +160,16 @@ function throttle<T extends unknown[]>(func: (...args: T) => void, limit: number
   };
 }
 
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const nextFrame = () => new Promise((resolve) => requestAnimationFrame(resolve));
 
 // -----------------------------------------------------------------------------
 // Constants & Interfaces
@@ -73,31 +186,45 @@ const IMAGE_GAP = 1000;
 const GRID_COLUMNS = 3;
 const IMAGE_WIDTH = 200;
 const IMAGE_HEIGHT = 200;
+const UPLOAD_CONCURRENCY = 4;
+const UPLOAD_GRID_GAP = 40;
+const DEFAULT_FONT_SIZE = 24;
+const DUPLICATE_OFFSET = 20;
+const NUDGE_DISTANCE = 1;
+const NUDGE_FAR_DISTANCE = 10;
+const KEYBOARD_ZOOM_FACTOR = 1.2;
+// Shortcuts that still work for viewers, who can only look around
+const READ_ONLY_SHORTCUTS = new Set<ShortcutAction>(["zoomIn", "zoomOut", "zoomReset", "showShortcuts"]);
+const SNAP_THRESHOLD = 6; // Screen pixels within which drags snap to guides
+const GUIDE_COLOR = "#FF3B81";
+const ANCHOR_SNAP_DISTANCE = 12; // Screen pixels within which connector ends bind
+const ERASER_RADIUS = 8; // Screen pixels
+const STROKE_SIMPLIFY_TOLERANCE = 0.75; // Screen pixels
+const HIGHLIGHTER_WIDTH_SCALE = 4;
+const HIGHLIGHTER_OPACITY = 0.35;
+const LONG_PRESS_DELAY = 500; // ms before a still touch opens the context menu
+const LONG_PRESS_TOLERANCE = 10; // Screen pixels a long press may drift
+const TOUCH_ANCHOR_HIT_WIDTH = 24; // Extra grab area around resize handles on touch
+const BACKUP_DEBOUNCE = 30 * 1000; // Back up 30s after the last change
+const BACKUP_INTERVAL = 10 * 60 * 1000; // and at least every 10 minutes while open
+const BACKUP_MIN_INTERVAL = 60 * 1000; // Skip if another client backed up within a minute
+// Layers (grid, cursors) that never show up in exported images
+const EXPORT_HIDDEN_NAME = "export-hidden";
+const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  fill: "transparent",
+  opacity: 1,
+  strokeWidth: 2,
+  dash: [],
+};
 
 
 
-interface CanvasState {
-  images: CanvasImage[];
-  shapes: Shape[];
-  lines: Line[];
-  viewport: ViewportState;
-}
-
 interface ViewportState {
   x: number;
   y: number;
   scale: number;
 }
 
-interface CanvasImage {
-  id: string;
-  url: string;
-  x: number;
-  y: number;
-  width?: number;
-  height?: number;
-}
-
 interface Shape {
   id: string;
   type: ShapeType;
@@ -108,14 +235,39 @@ interface Shape {
   points?: number[];
   color: string;
   strokeWidth: number;
+  rotation?: number;
+  fill?: string;
+  opacity?: number;
+  dash?: number[];
+  fromId?: string;
+  fromAnchor?: ConnectorAnchor;
+  toId?: string;
+  toAnchor?: ConnectorAnchor;
+  routing?: "straight" | "elbow";
+  label?: string;
 }
 
 interface Line {
   id: string;
-  tool: "pen";
   points: number[];
   color: string;
   width: number;
+  opacity?: number;
+  dash?: number[];
+  pressures?: number[];
+}
+
+interface CanvasText {
+  id: string;
+  type: TextType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  fontSize: number;
+  color: string;
+  fill?: string;
 }
 
 // Add new interface for context menu
@@ -155,22 +307,8 @@ const ImageDimensionLoader = ({
 };
 
 // Add these helper functions at the top of the file
-const calculateArrowPoints = (from: { x: number; y: number }, to: { x: number; y: number }) => {
-  const dx = to.x - from.x;
-  const dy = to.y - from.y;
-  const angle = Math.atan2(dy, dx);
-  const headlen = 20;
-
-  return [
-    from.x, from.y,
-    to.x, to.y,
-    to.x - headlen * Math.cos(angle - Math.PI / 6),
-    to.y - headlen * Math.sin(angle - Math.PI / 6),
-    to.x, to.y,
-    to.x - headlen * Math.cos(angle + Math.PI / 6),
-    to.y - headlen * Math.sin(angle + Math.PI / 6),
-  ];
-};
+const calculateArrowPoints = (from: { x: number; y: number }, to: { x: number; y: number }) =>
+  addArrowHead([from.x, from.y, to.x, to.y]);
 
 const calculateStarPoints = (centerX: number, centerY: number, size: number) => {
   const points: number[] = [];
@@ -209,7 +347,125 @@ const isShapeTool = (tool: ToolType): tool is ShapeType => {
   return ["rectangle", "circle", "line", "arrow", "star", "triangle"].includes(tool as string);
 };
 
+const isTextTool = (tool: ToolType): tool is TextType => {
+  return tool === "text" || tool === "sticky";
+};
+
+// Tools driven by pointer events rather than mouse events, see "Freehand"
+const isFreehandTool = (tool: ToolType) => {
+  return tool === "pen" || tool === "highlighter" || tool === "eraser";
+};
+
+// Closed shapes can be filled, lines and arrows only have a stroke
+const isFillableShape = (type: ShapeType) => {
+  return type === "rectangle" || type === "circle" || type === "star" || type === "triangle";
+};
+
+const translateShape = (shape: Shape, dx: number, dy: number): Shape => ({
+  ...shape,
+  x: shape.x + dx,
+  y: shape.y + dy,
+  points: shape.points?.map((coord, index) =>
+    index % 2 === 0 ? coord + dx : coord + dy
+  ),
+});
+
+// Scale a shape around its origin and move the origin to (originX, originY).
+// Stars, triangles and arrows are regenerated so they keep their proportions.
+const scaleShape = (
+  shape: Shape,
+  originX: number,
+  originY: number,
+  scaleX: number,
+  scaleY: number
+): Shape => {
+  const oldOrigin = getShapeOrigin(shape);
+  const mapX = (value: number) => originX + (value - oldOrigin.x) * scaleX;
+  const mapY = (value: number) => originY + (value - oldOrigin.y) * scaleY;
+  const x = mapX(shape.x);
+  const y = mapY(shape.y);
+
+  switch (shape.type) {
+    case "circle": {
+      const diameter = Math.abs(shape.width * scaleX);
+      return { ...shape, x, y, width: diameter, height: diameter };
+    }
+    case "star": {
+      const size = Math.abs(shape.width * scaleX) / 2;
+      return {
+        ...shape,
+        x,
+        y,
+        width: size * 2,
+        height: size * 2,
+        points: calculateStarPoints(x, y, size),
+      };
+    }
+    case "triangle": {
+      const width = shape.width * scaleX;
+      const height = shape.height * scaleY;
+      return {
+        ...shape,
+        x,
+        y,
+        width,
+        height,
+        points: calculateTrianglePoints(x, y, width, height),
+      };
+    }
+    case "arrow": {
+      // Scale the route (which may have elbows) and redraw the head
+      const route = getRoutePoints(shape);
+      const scaled = (route.length >= 4 ? route : [shape.x, shape.y, shape.x, shape.y])
+        .map((coord, index) => index % 2 === 0 ? mapX(coord) : mapY(coord));
+      return {
+        ...shape,
+        x: scaled[0],
+        y: scaled[1],
+        width: scaled[scaled.length - 2] - scaled[0],
+        height: scaled[scaled.length - 1] - scaled[1],
+        points: addArrowHead(scaled),
+      };
+    }
+    case "line":
+      return {
+        ...shape,
+        x,
+        y,
+        width: shape.width * scaleX,
+        height: shape.height * scaleY,
+        points: shape.points?.map((coord, index) =>
+          index % 2 === 0 ? mapX(coord) : mapY(coord)
+        ),
+      };
+    default:
+      return {
+        ...shape,
+        x,
+        y,
+        width: shape.width * scaleX,
+        height: shape.height * scaleY,
+      };
+  }
+};
+
+
+// Only http(s) links that look like an image file are pasted as images
+const isImageUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol.startsWith('http') && /\.(png|jpe?g|gif|webp|svg|avif|bmp)$/i.test(url.pathname);
+  } catch {
+    return false;
+  }
+};
+
+const CANVAS_CLIPBOARD_MARKER = "canvas_clipboard";
+
 const CURSOR_TIMEOUT = 1000 * 5; // 5 seconds timeout
+// Collaborators' selection badges, in screen pixels
+const REMOTE_BADGE_FONT_SIZE = 11;
+const REMOTE_BADGE_PADDING = 4;
 
 const Canva: React.FC<CanvasProps> = ({ roomId }) => {
   // Konva Stage Ref
@@ -233,59 +489,253 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
   } | null>(null);
   const selectionStart = useRef<{ x: number; y: number } | null>(null);
   const [isSelecting, setIsSelecting] = useState(false);
+  // Group whose children are picked one at a time, entered by double-click
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+
+  // Transformer used for the single selected shape
+  const shapeTransformerRef = useRef<Konva.Transformer>(null);
+  // Dashed rect and transformer used to move and resize a multi-selection
+  const groupRectRef = useRef<Konva.Rect>(null);
+  const groupTransformerRef = useRef<Konva.Transformer>(null);
 
   // Drawing Tools State
   const [activeTool, setActiveTool] = useState<ToolType>("select");
   const [strokeColor, setStrokeColor] = useState("#000000");
-  const [strokeWidth] = useState(2);
+  // Style for new shapes and lines, edited through the properties panel
+  const [shapeStyle, setShapeStyle] = useState<ShapeStyle>(DEFAULT_SHAPE_STYLE);
+  const [fontSize, setFontSize] = useState(DEFAULT_FONT_SIZE);
   const isDrawing = useRef(false);
 
-  // History State for Undo/Redo
-  const [history, setHistory] = useState<CanvasState[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(-1);
-  const stateRef = useRef<CanvasState>({
-    images: [],
-    shapes: [],
-    lines: [],
-    viewport: { x: 0, y: 0, scale: INITIAL_SCALE },
-  });
+  // Text element currently being edited inline
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showLayers, setShowLayers] = useState(false);
+
+  // Snapping: the grid is optional, guides to other elements are always on
+  const [snapToGrid, setSnapToGrid] = useState(false);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+  const [distanceBadges, setDistanceBadges] = useState<DistanceBadge[]>([]);
+  const snapTargetsRef = useRef<Bounds[] | null>(null);
+
+  // Connector whose label is being edited, and the anchor a connector end
+  // would bind to under the pointer
+  const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
+  const [anchorHint, setAnchorHint] = useState<{ id: string; anchor: ConnectorAnchor } | null>(null);
+
+  // Elements this user is dragging, resizing or drawing, shared through
+  // presence so collaborators see who is working on what
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+
+  // Natural sizes of images without a stored size, reported once loaded
+  const [imageDimensions, setImageDimensions] = useState<Map<string, { width: number; height: number }>>(new Map());
 
   // Liveblocks state
-  const storage = useStorage((root) => root) as Storage | null;
+  const storage = useStorage((root) => root) as BoardState | null;
   const isStorageLoading = storage === null;
 
   const memoizedStorage = useMemo(() => ({
-    shapes: (storage?.shapes ?? []) as Storage["shapes"],
-    images: (storage?.images ?? []) as Storage["images"],
-    lines: (storage?.lines ?? []) as Storage["lines"]
+    shapes: storage?.shapes ?? [],
+    images: storage?.images ?? [],
+    lines: storage?.lines ?? [],
+    texts: storage?.texts ?? []
   }), [storage]);
 
-  const { shapes, images, lines } = memoizedStorage;
-  
-  // Create mutations for updating storage
+  const { shapes, images, lines, texts } = memoizedStorage;
+
+  // Every element regardless of kind, for group lookups
+  const allElements = useMemo(
+    () => [...images, ...shapes, ...lines, ...texts],
+    [images, shapes, lines, texts]
+  );
+
+  // Every element bottom to top, which is also the render order
+  const orderedElements = useMemo(
+    () => getOrderedElements({ images, shapes, lines, texts }),
+    [images, shapes, lines, texts]
+  );
+
+  // Elements new connector ends can bind to; hidden ones are skipped
+  const connectorTargets = useMemo(() => {
+    const isVisible = (element: { hidden?: boolean }) => !element.hidden;
+    return getConnectableBounds({
+      images: images.filter(isVisible),
+      shapes: shapes.filter(isVisible),
+      lines: [],
+      texts: texts.filter(isVisible),
+    }, imageDimensions);
+  }, [images, shapes, texts, imageDimensions]);
+
+  // Undo/redo use the room history, which records this client's own storage
+  // operations only. Handlers that make several updates wrap them in `batch`
+  // so they undo as one step; drags, drawing and text editing pause history
+  // while in progress.
+  const history = useHistory();
+  const canUndo = useCanUndo();
+  const canRedo = useCanRedo();
+  const batch = useBatch();
+
+  // Create mutations for updating storage. Each one diffs the new list against
+  // the list rendered alongside it, which callers derived it from, so only
+  // elements they added, changed or removed are written.
   const updateShapes = useMutation((
-    { storage }: MutationContext<Presence, Storage, BaseUserMeta>,
-    newShapes: Storage["shapes"]
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    newShapes: BoardState["shapes"]
   ) => {
-    storage.set("shapes", newShapes);
-  }, []);
+    syncElementList(storage.get("shapes"), shapes, newShapes, createZIndexCounter(storage));
+    syncConnectors(storage, imageDimensions);
+  }, [shapes, imageDimensions]);
 
   const updateImages = useMutation((
-    { storage }: MutationContext<Presence, Storage, BaseUserMeta>,
-    newImages: Storage["images"]
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    newImages: BoardState["images"]
   ) => {
-    storage.set("images", newImages);
-  }, []);
+    syncElementList(storage.get("images"), images, newImages, createZIndexCounter(storage));
+    syncConnectors(storage, imageDimensions);
+  }, [images, imageDimensions]);
 
   const updateLines = useMutation((
-    { storage }: MutationContext<Presence, Storage, BaseUserMeta>,
-    newLines: Storage["lines"]
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    newLines: BoardState["lines"]
+  ) => {
+    syncElementList(storage.get("lines"), lines, newLines, createZIndexCounter(storage));
+  }, [lines]);
+
+  // Patch (or remove, with null) one image against the latest storage, so
+  // uploads finishing at different times don't overwrite each other
+  const patchImage = useMutation((
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    id: string,
+    changes: Partial<BoardState["images"][number]> | null
+  ) => {
+    const currentImages = storage.get("images");
+    const index = currentImages.findIndex((img) => img.get("id") === id);
+    if (index === -1) return;
+    if (changes) {
+      currentImages.get(index)!.update(changes);
+    } else {
+      currentImages.delete(index);
+    }
+    syncConnectors(storage, imageDimensions);
+  }, [imageDimensions]);
+
+  const updateTexts = useMutation((
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    newTexts: BoardState["texts"]
+  ) => {
+    syncElementList(storage.get("texts"), texts, newTexts, createZIndexCounter(storage));
+    syncConnectors(storage, imageDimensions);
+  }, [texts, imageDimensions]);
+
+  // Write new stacking positions, keyed by element id, in one step
+  const setZIndices = useMutation((
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    zIndices: Map<string, number>
+  ) => {
+    (["images", "lines", "shapes", "texts"] as const).forEach((key) => {
+      storage.get(key).forEach((item: LiveObject<{ id: string; zIndex?: number }>) => {
+        const zIndex = zIndices.get(item.get("id"));
+        if (zIndex !== undefined) item.update({ zIndex });
+      });
+    });
+  }, []);
+
+  // Set or clear the locked and hidden flags on the given elements
+  const setElementFlags = useMutation((
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    ids: string[],
+    flags: { locked?: boolean; hidden?: boolean }
+  ) => {
+    (["images", "lines", "shapes", "texts"] as const).forEach((key) => {
+      storage.get(key).forEach((item: LiveObject<{ id: string; locked?: boolean; hidden?: boolean }>) => {
+        if (!ids.includes(item.get("id"))) return;
+        (Object.keys(flags) as (keyof typeof flags)[]).forEach((flag) => {
+          if (flags[flag]) {
+            item.set(flag, true);
+          } else {
+            item.delete(flag);
+          }
+        });
+      });
+    });
+  }, []);
+
+  // Set the element's layer name; an empty name falls back to the default
+  const renameElement = useMutation((
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    id: string,
+    name: string
   ) => {
-    storage.set("lines", newLines);
+    (["images", "lines", "shapes", "texts"] as const).forEach((key) => {
+      storage.get(key).forEach((item: LiveObject<{ id: string; name?: string }>) => {
+        if (item.get("id") !== id) return;
+        if (name) {
+          item.set("name", name);
+        } else {
+          item.delete("name");
+        }
+      });
+    });
+  }, []);
+
+  // Write new group memberships, keyed by element id. An empty list removes
+  // the element from every group.
+  const setGroupIds = useMutation((
+    { storage }: MutationContext<Presence, Storage, UserMeta>,
+    groupIds: Map<string, string[]>
+  ) => {
+    (["images", "lines", "shapes", "texts"] as const).forEach((key) => {
+      storage.get(key).forEach((item: LiveObject<{ id: string; groupIds?: string[] }>) => {
+        const next = groupIds.get(item.get("id"));
+        if (next === undefined) return;
+        if (next.length > 0) {
+          item.update({ groupIds: next });
+        } else {
+          item.delete("groupIds");
+        }
+      });
+    });
+  }, []);
+
+  // Rooms created before elements were stored as LiveObjects hold plain
+  // arrays; convert them once so element-level operations work. Elements
+  // saved before stacking order existed get a zIndex in the old fixed
+  // order (images, lines, shapes, texts).
+  const migrateStorage = useMutation((
+    { storage }: MutationContext<Presence, Storage, UserMeta>
+  ) => {
+    const keys = ["images", "lines", "shapes", "texts"] as const;
+    keys.forEach((key) => {
+      const value: unknown = storage.get(key);
+      if (!(value instanceof LiveList)) {
+        const elements = Array.isArray(value) ? value : [];
+        storage.set(key, createElementList(elements) as never);
+      }
+    });
+
+    const nextZIndex = createZIndexCounter(storage);
+    keys.forEach((key) => {
+      storage.get(key).forEach((item: LiveObject<{ zIndex?: number }>) => {
+        if (item.get("zIndex") === undefined) {
+          item.update({ zIndex: nextZIndex() });
+        }
+      });
+    });
   }, []);
 
   const updateMyPresence = useUpdateMyPresence();
   const others = useOthers();
+  // Viewers get read-only room tokens (see /api/liveblocks-auth): they can
+  // pan, zoom and show their cursor but not change the board
+  const isReadOnly = useSelf((me) => !me.canWrite) ?? true;
+  const myRole = useSelf((me) => me.info.role);
+  const shareRoles = useMemo(
+    () => MEMBER_ROLES.filter((role) => canShareAs(myRole ?? null, role)),
+    [myRole]
+  );
+
+  useEffect(() => {
+    if (isReadOnly) setActiveTool("hand");
+  }, [isReadOnly]);
 
   const throttledUpdateViewport = useRef(
     throttle((newViewport: ViewportState) => {
@@ -294,9 +744,6 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     }, 16)
   ).current;
 
-  // Add this near the top with other hooks
-  const [cursorImg] = useImage("/cursor.png");
-
   // Add state for context menu
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({
     show: false,
@@ -304,9 +751,6 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     y: 0,
   });
 
-  // Add state for image dimensions
-  const [imageDimensions, setImageDimensions] = useState<Map<string, { width: number; height: number }>>(new Map());
-  
   const handleImageDimensionLoad = useCallback((id: string, dimensions: { width: number; height: number }) => {
     setImageDimensions(prev => {
       // Only update if dimensions have changed
@@ -320,51 +764,58 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     });
   }, []);
 
-  // Update the groupBBox calculation
-  const groupBBox = useMemo(() => {
-    if (selectedIds.length < 2) return null;
+  // Padded bounding box around the given elements
+  const getElementsBBox = useCallback((ids: string[], padding = 5) => {
     const xs: number[] = [];
     const ys: number[] = [];
     
     images.forEach((img) => {
-      if (selectedIds.includes(img.id)) {
+      if (ids.includes(img.id)) {
         const dims = imageDimensions.get(img.id) || { width: IMAGE_WIDTH, height: IMAGE_HEIGHT };
-        xs.push(img.x);
-        ys.push(img.y);
-        xs.push(img.x + dims.width);
-        ys.push(img.y + dims.height);
+        const corners = getRectCorners(
+          img.x,
+          img.y,
+          img.width ?? dims.width,
+          img.height ?? dims.height,
+          img.rotation
+        );
+        for (let i = 0; i < corners.length; i += 2) {
+          xs.push(corners[i]);
+          ys.push(corners[i + 1]);
+        }
       }
     });
     
     shapes.forEach((shape) => {
-      if (selectedIds.includes(shape.id)) {
-        if (shape.type === "rectangle") {
-          xs.push(shape.x);
-          ys.push(shape.y);
-          xs.push(shape.x + shape.width);
-          ys.push(shape.y + shape.height);
-        } else if (shape.type === "circle") {
-          const radius = Math.abs(shape.width);
-          xs.push(shape.x - radius);
-          xs.push(shape.x + radius);
-          ys.push(shape.y - radius);
-          ys.push(shape.y + radius);
+      if (ids.includes(shape.id)) {
+        const outline = getShapeOutline(shape);
+        for (let i = 0; i < outline.length; i += 2) {
+          xs.push(outline[i]);
+          ys.push(outline[i + 1]);
         }
       }
     });
     
     lines.forEach((line) => {
-      if (selectedIds.includes(line.id)) {
+      if (ids.includes(line.id)) {
         for (let i = 0; i < line.points.length; i += 2) {
           xs.push(line.points[i]);
           ys.push(line.points[i + 1]);
         }
       }
     });
+
+    texts.forEach((text) => {
+      if (ids.includes(text.id)) {
+        xs.push(text.x);
+        ys.push(text.y);
+        xs.push(text.x + text.width);
+        ys.push(text.y + text.height);
+      }
+    });
     
     if (xs.length === 0 || ys.length === 0) return null;
     
-    const padding = 5;
     const minX = Math.min(...xs) - padding;
     const minY = Math.min(...ys) - padding;
     const maxX = Math.max(...xs) + padding;
@@ -376,7 +827,12 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
       width: maxX - minX,
       height: maxY - minY
     };
-  }, [images, shapes, lines, selectedIds, imageDimensions]);
+  }, [images, shapes, lines, texts, imageDimensions]);
+
+  const groupBBox = useMemo(
+    () => selectedIds.length < 2 ? null : getElementsBBox(selectedIds),
+    [selectedIds, getElementsBBox]
+  );
 
   // ---------------------------------------------------------------------------
   // Update viewport and history helper functions
@@ -385,23 +841,6 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     throttledUpdateViewport(newViewport);
   }, [throttledUpdateViewport]);
 
-  useEffect(() => {
-    stateRef.current = {
-      images,
-      shapes,
-      lines: lines.map(line => ({ ...line, tool: "pen" })),
-      viewport
-    };
-  }, [images, shapes, lines, viewport]);
-
-  const addHistoryEntry = useCallback((newState: CanvasState) => {
-    setHistory((prevHistory) => {
-      const newHistory = [...prevHistory.slice(0, currentIndex + 1), newState];
-      return newHistory;
-    });
-    setCurrentIndex((prevIndex) => prevIndex + 1);
-  }, [currentIndex]);
-
   // ---------------------------------------------------------------------------
   // Smooth Zoom (using exponential zoom factor)
   // ---------------------------------------------------------------------------
@@ -453,7 +892,7 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
   // Mouse / Touch Event Handlers
   // ---------------------------------------------------------------------------
   const handleMouseDown = useCallback(
-    (e: KonvaEventObject<MouseEvent>) => {
+    (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
       const stage = e.target.getStage();
       if (!stage) return;
 
@@ -462,14 +901,17 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
 
       // Allow selection when clicking on shapes
       if (activeTool === "select") {
-        if (className === "Line" || className === "Rect" || className === "Circle" || className === "Image") {
+        if (className === "Line" || className === "Rect" || className === "Circle" || className === "Image" || className === "Text") {
           return; // Let the shape's onClick handler handle selection
         }
 
         if (target === stage) {
           e.evt.preventDefault();
           e.evt.stopPropagation();
-          if (!e.evt.shiftKey) setSelectedIds([]);
+          if (!e.evt.shiftKey) {
+            setSelectedIds([]);
+            setEditingGroupId(null);
+          }
           setIsSelecting(true);
           const pos = stage.getPointerPosition();
           if (!pos) return;
@@ -482,7 +924,6 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         return;
       }
 
-      isDrawing.current = true;
       const pos = stage.getPointerPosition();
       if (!pos) return;
       const stagePos = {
@@ -490,36 +931,67 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         y: (pos.y - stage.y()) / stage.scaleY(),
       };
 
-      if (activeTool === "pen") {
-        const newLine = {
-          id: `line-${Date.now()}`,
-          tool: "pen",
-          points: [stagePos.x, stagePos.y],
-          color: strokeColor,
-          width: strokeWidth,
-        };
-        updateLines([...lines, newLine]);
-      } else if (isShapeTool(activeTool)) {
-        const newShape: Shape = {
-          id: `shape-${Date.now()}`,
+      if (isTextTool(activeTool)) {
+        // Place a new text element and start editing it right away
+        if (target !== stage) return;
+        const bounds = measureTextBounds({ type: activeTool, text: "", fontSize });
+        const newText: CanvasText = {
+          id: `text-${Date.now()}`,
           type: activeTool,
-          x: stagePos.x,
-          y: stagePos.y,
-          width: 0,
-          height: 0,
+          x: activeTool === "sticky" ? stagePos.x - STICKY_SIZE / 2 : stagePos.x,
+          y: activeTool === "sticky" ? stagePos.y - STICKY_SIZE / 2 : stagePos.y - bounds.height / 2,
+          ...bounds,
+          text: "",
+          fontSize,
           color: strokeColor,
-          strokeWidth,
-          points: activeTool === "line" || activeTool === "arrow" 
-            ? [stagePos.x, stagePos.y, stagePos.x, stagePos.y]
-            : undefined
+          fill: activeTool === "sticky" ? STICKY_FILL : undefined,
         };
-        updateShapes([...shapes, newShape]);
+        // Creating and typing the text undo as one step, see the editing effect
+        history.pause();
+        updateTexts([...texts, newText]);
+        setSelectedIds([newText.id]);
+        setEditingTextId(newText.id);
+        setActiveTool("select");
+        return;
       }
+
+      if (!isShapeTool(activeTool)) return;
+
+      isDrawing.current = true;
+      // The whole shape drag becomes a single undo step
+      history.pause();
+
+      // Lines and arrows started on an element's anchor are bound to it
+      const binding = isConnectorType(activeTool)
+        ? findAnchorAt(stagePos, connectorTargets, ANCHOR_SNAP_DISTANCE / stage.scaleX())
+        : null;
+      const start = binding
+        ? getAnchorPoint(connectorTargets.get(binding.id)!, binding.anchor)
+        : stagePos;
+      const newShape: Shape = {
+        id: `shape-${Date.now()}`,
+        type: activeTool,
+        x: start.x,
+        y: start.y,
+        width: 0,
+        height: 0,
+        color: strokeColor,
+        strokeWidth: shapeStyle.strokeWidth,
+        fill: isFillableShape(activeTool) ? shapeStyle.fill : undefined,
+        opacity: shapeStyle.opacity,
+        dash: shapeStyle.dash,
+        points: activeTool === "line" || activeTool === "arrow" 
+          ? [start.x, start.y, start.x, start.y]
+          : undefined,
+        ...(binding && { fromId: binding.id, fromAnchor: binding.anchor }),
+      };
+      updateShapes([...shapes, newShape]);
+      setBusyIds([newShape.id]);
     },
-    [activeTool, lines, shapes, strokeColor, strokeWidth, updateLines, updateShapes]
+    [activeTool, shapes, texts, strokeColor, shapeStyle, fontSize, connectorTargets, updateShapes, updateTexts, history]
   );
 
-  const handleMouseMove = useCallback((e: KonvaEventObject<MouseEvent>) => {
+  const handleMouseMove = useCallback((e: KonvaEventObject<MouseEvent | TouchEvent>) => {
     const stage = e.target.getStage();
     if (!stage) return;
 
@@ -533,6 +1005,17 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         cursor: stagePos,
         lastUpdate: Date.now()
       });
+
+      // Show where a line or arrow end would attach
+      if (isConnectorType(activeTool as ShapeType)) {
+        const drawnShape = isDrawing.current ? shapes[shapes.length - 1] : undefined;
+        const targets = new Map(connectorTargets);
+        if (drawnShape?.fromId) targets.delete(drawnShape.fromId);
+        const hint = findAnchorAt(stagePos, targets, ANCHOR_SNAP_DISTANCE / stage.scaleX());
+        setAnchorHint((prev) =>
+          prev?.id === hint?.id && prev?.anchor === hint?.anchor ? prev : hint
+        );
+      }
     }
 
     if (isSelecting && selectionStart.current) {
@@ -555,14 +1038,15 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
 
       // Check for images
       images.forEach((img) => {
-        const imgRight = img.x + IMAGE_WIDTH;
-        const imgBottom = img.y + IMAGE_HEIGHT;
-        if (
-          rect.x < imgRight &&
-          rect.x + rect.width > img.x &&
-          rect.y < imgBottom &&
-          rect.y + rect.height > img.y
-        ) {
+        const dims = imageDimensions.get(img.id) || { width: IMAGE_WIDTH, height: IMAGE_HEIGHT };
+        const corners = getRectCorners(
+          img.x,
+          img.y,
+          img.width ?? dims.width,
+          img.height ?? dims.height,
+          img.rotation
+        );
+        if (rectsIntersect(rect, getPointsBounds(corners))) {
           newSelectedIds.push(img.id);
         }
       });
@@ -572,12 +1056,7 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         let isIntersecting = false;
         
         if (shape.type === "rectangle") {
-          isIntersecting = (
-            rect.x < shape.x + shape.width &&
-            rect.x + rect.width > shape.x &&
-            rect.y < shape.y + shape.height &&
-            rect.y + rect.height > shape.y
-          );
+          isIntersecting = rectsIntersect(rect, getPointsBounds(getShapeOutline(shape)));
         } else if (shape.type === "circle") {
           const radius = Math.abs(shape.width / 2);
           isIntersecting = (
@@ -589,9 +1068,10 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         } else if (shape.type === "star" || shape.type === "arrow" || shape.type === "line" || shape.type === "triangle") {
           // Check if any point of the shape is inside the selection rectangle
           if (shape.points) {
-            for (let i = 0; i < shape.points.length; i += 2) {
-              const pointX = shape.points[i];
-              const pointY = shape.points[i + 1];
+            const outline = getShapeOutline(shape);
+            for (let i = 0; i < outline.length; i += 2) {
+              const pointX = outline[i];
+              const pointY = outline[i + 1];
               if (
                 pointX >= rect.x &&
                 pointX <= rect.x + rect.width &&
@@ -627,12 +1107,33 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         }
       });
 
+      // Check for text elements and sticky notes
+      texts.forEach((text) => {
+        if (
+          rect.x < text.x + text.width &&
+          rect.x + rect.width > text.x &&
+          rect.y < text.y + text.height &&
+          rect.y + rect.height > text.y
+        ) {
+          newSelectedIds.push(text.id);
+        }
+      });
+
+      // Groups are picked whole; locked and hidden elements are skipped
+      const unpickableIds = new Set(
+        allElements.filter((item) => item.locked || item.hidden).map((item) => item.id)
+      );
+      const pickedIds = expandToGroups(
+        allElements,
+        newSelectedIds.filter((id) => !unpickableIds.has(id)),
+        null
+      ).filter((id) => !unpickableIds.has(id));
       if (e.evt.shiftKey) {
         setSelectedIds((prev) =>
-          Array.from(new Set([...prev, ...newSelectedIds]))
+          Array.from(new Set([...prev, ...pickedIds]))
         );
       } else {
-        setSelectedIds(newSelectedIds);
+        setSelectedIds(pickedIds);
       }
       return;
     }
@@ -647,15 +1148,7 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         y: (pos.y - stage.y()) / stage.scaleY(),
       };
 
-      if (activeTool === "pen") {
-        const lastLine = lines[lines.length - 1];
-        const updatedLine = {
-          ...lastLine,
-          tool: "pen",
-          points: lastLine.points.concat([stagePos.x, stagePos.y]),
-        };
-        updateLines([...lines.slice(0, -1), updatedLine]);
-      } else if (isShapeTool(activeTool)) {
+      if (isShapeTool(activeTool)) {
         const lastShape = shapes[shapes.length - 1];
         if (!lastShape) return;
 
@@ -673,24 +1166,27 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
             };
             break;
           case "line":
+          case "arrow": {
+            // The end binds to the anchor under the pointer, if any. Bound
+            // routes are finished when storage re-routes connectors.
+            const targets = new Map(connectorTargets);
+            if (lastShape.fromId) targets.delete(lastShape.fromId);
+            const binding = findAnchorAt(stagePos, targets, ANCHOR_SNAP_DISTANCE / stage.scaleX());
+            const end = binding
+              ? getAnchorPoint(targets.get(binding.id)!, binding.anchor)
+              : stagePos;
             updatedShape = {
-              ...lastShape,
-              width: stagePos.x - lastShape.x,
-              height: stagePos.y - lastShape.y,
-              points: [lastShape.x, lastShape.y, stagePos.x, stagePos.y]
-            };
-            break;
-          case "arrow":
-            updatedShape = {
-              ...lastShape,
-              width: stagePos.x - lastShape.x,
-              height: stagePos.y - lastShape.y,
-              points: calculateArrowPoints(
-                { x: lastShape.x, y: lastShape.y },
-                { x: stagePos.x, y: stagePos.y }
-              )
+              // Keeps the start binding and drops the previous end binding
+              ...detachConnectorEnds(lastShape, lastShape.fromId ? [lastShape.fromId] : []),
+              ...(binding && { toId: binding.id, toAnchor: binding.anchor }),
+              width: end.x - lastShape.x,
+              height: end.y - lastShape.y,
+              points: lastShape.type === "arrow"
+                ? calculateArrowPoints({ x: lastShape.x, y: lastShape.y }, end)
+                : [lastShape.x, lastShape.y, end.x, end.y]
             };
             break;
+          }
           case "star":
             const size = Math.max(
               Math.abs(stagePos.x - lastShape.x),
@@ -734,7 +1230,10 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     lines,
     shapes,
     images,
-    updateLines,
+    texts,
+    allElements,
+    imageDimensions,
+    connectorTargets,
     updateShapes,
     updateMyPresence,
     setSelectedIds,
@@ -755,161 +1254,663 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
       if (isDrawing.current) {
         isDrawing.current = false;
 
-        if (activeTool !== "pen") {
-          const lastShape = shapes[shapes.length - 1];
-          if (
-            lastShape &&
-            Math.abs(lastShape.width) < 5 &&
-            Math.abs(lastShape.height) < 5
-          ) {
-            updateShapes(shapes.slice(0, shapes.length - 1));
-          }
+        const lastShape = shapes[shapes.length - 1];
+        if (
+          lastShape &&
+          Math.abs(lastShape.width) < 5 &&
+          Math.abs(lastShape.height) < 5
+        ) {
+          updateShapes(shapes.slice(0, shapes.length - 1));
         }
 
-        addHistoryEntry(stateRef.current);
+        history.resume();
+        setBusyIds([]);
       }
     },
-    [isSelecting, activeTool, shapes, addHistoryEntry, stateRef, updateShapes]
+    [isSelecting, shapes, history, updateShapes]
   );
 
+  // ---------------------------------------------------------------------------
+  // Freehand: pen, highlighter and eraser (see app/utils/freehand.ts). These
+  // use pointer events so pen pressure and every coalesced sample are kept.
+  // ---------------------------------------------------------------------------
+  const freehandLineId = useRef<string | null>(null);
+  const lastEraserPoint = useRef<{ x: number; y: number } | null>(null);
+  const [eraserPoint, setEraserPoint] = useState<{ x: number; y: number } | null>(null);
+
+  // World positions and pressures of every sample in a pointer event
+  const getPointerSamples = useCallback((e: PointerEvent) => {
+    const stage = stageRef.current;
+    if (!stage) return [];
+    const rect = stage.container().getBoundingClientRect();
+    const events = e.getCoalescedEvents?.() ?? [];
+    return (events.length > 0 ? events : [e]).map((sample) => ({
+      x: (sample.clientX - rect.left - stage.x()) / stage.scaleX(),
+      y: (sample.clientY - rect.top - stage.y()) / stage.scaleY(),
+      pressure: sample.pressure,
+    }));
+  }, []);
+
+  // Cut every visible, unlocked stroke the eraser passed over since its last
+  // position. Strokes left with no points are deleted.
+  const eraseAlong = useCallback((to: { x: number; y: number }) => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const from = lastEraserPoint.current ?? to;
+    lastEraserPoint.current = to;
+    const radius = ERASER_RADIUS / stage.scaleX();
+
+    let hasChanges = false;
+    const newLines = lines.flatMap((line) => {
+      if (line.locked || line.hidden) return [line];
+      const pieces = eraseStroke(line, from, to, radius);
+      if (!pieces) return [line];
+      hasChanges = true;
+      // The first piece keeps the stroke's id; the rest stack at its position
+      return pieces.map((piece, index) => {
+        const next = { ...line, ...piece, id: index === 0 ? line.id : `line-${Date.now()}-${Math.random()}` };
+        if (!piece.pressures) delete next.pressures;
+        return next;
+      });
+    });
+    if (hasChanges) updateLines(newLines);
+  }, [lines, updateLines]);
+
+  const handlePointerDown = useCallback((e: KonvaEventObject<PointerEvent>) => {
+    if (!isFreehandTool(activeTool) || e.evt.button !== 0 || !e.evt.isPrimary) return;
+    const [sample] = getPointerSamples(e.evt);
+    if (!sample) return;
+    // The whole stroke or erase becomes a single undo step
+    history.pause();
+
+    if (activeTool === "eraser") {
+      lastEraserPoint.current = null;
+      eraseAlong(sample);
+      return;
+    }
+
+    const isHighlighter = activeTool === "highlighter";
+    const newLine: Line = {
+      id: `line-${Date.now()}`,
+      points: [sample.x, sample.y],
+      color: strokeColor,
+      width: isHighlighter ? shapeStyle.strokeWidth * HIGHLIGHTER_WIDTH_SCALE : shapeStyle.strokeWidth,
+      opacity: isHighlighter ? HIGHLIGHTER_OPACITY : shapeStyle.opacity,
+      dash: isHighlighter ? [] : shapeStyle.dash,
+      // Only pens report real pressure; mice always report 0.5
+      ...(!isHighlighter && e.evt.pointerType === "pen" && { pressures: [sample.pressure] }),
+    };
+    freehandLineId.current = newLine.id;
+    updateLines([...lines, newLine]);
+    setBusyIds([newLine.id]);
+  }, [activeTool, strokeColor, shapeStyle, lines, history, getPointerSamples, eraseAlong, updateLines]);
+
+  const handlePointerMove = useCallback((e: KonvaEventObject<PointerEvent>) => {
+    if (!isFreehandTool(activeTool) || !e.evt.isPrimary) return;
+    const samples = getPointerSamples(e.evt);
+    if (samples.length === 0) return;
+
+    if (activeTool === "eraser") {
+      setEraserPoint(samples[samples.length - 1]);
+      // Erasing stops for good once a pinch clears the last point
+      if (e.evt.buttons & 1 && lastEraserPoint.current) samples.forEach(eraseAlong);
+      return;
+    }
+
+    const line = lines.find((item) => item.id === freehandLineId.current);
+    if (!line) return;
+    updateLines(lines.map((item) =>
+      item.id === line.id
+        ? {
+            ...line,
+            points: [...line.points, ...samples.flatMap(({ x, y }) => [x, y])],
+            ...(line.pressures && { pressures: [...line.pressures, ...samples.map(({ pressure }) => pressure)] }),
+          }
+        : item
+    ));
+  }, [activeTool, lines, getPointerSamples, eraseAlong, updateLines]);
+
+  // Finished strokes are smoothed and simplified before they are kept
+  const handlePointerUp = useCallback(() => {
+    if (!isFreehandTool(activeTool)) return;
+    const stage = stageRef.current;
+    const line = lines.find((item) => item.id === freehandLineId.current);
+    if (line && stage) {
+      const stroke = simplifyStroke(smoothStroke(line), STROKE_SIMPLIFY_TOLERANCE / stage.scaleX());
+      updateLines(lines.map((item) => item.id === line.id ? { ...line, ...stroke } : item));
+    }
+    freehandLineId.current = null;
+    lastEraserPoint.current = null;
+    history.resume();
+    setBusyIds([]);
+  }, [activeTool, lines, history, updateLines]);
+
+  // ---------------------------------------------------------------------------
+  // Snapping (see app/utils/snapping.ts)
+  // ---------------------------------------------------------------------------
+  // Bounds of every visible element outside the moving set, collected once
+  // per drag or resize
+  const getSnapTargets = useCallback((movingIds: string[]) => {
+    if (!snapTargetsRef.current) {
+      snapTargetsRef.current = allElements
+        .filter((item) => !item.hidden && !movingIds.includes(item.id))
+        .map((item) => getElementsBBox([item.id], 0))
+        .filter((bounds): bounds is Bounds => bounds !== null);
+    }
+    return snapTargetsRef.current;
+  }, [allElements, getElementsBBox]);
+
+  const snapOptions = useMemo(() => ({
+    threshold: SNAP_THRESHOLD / viewport.scale,
+    gridSize: snapToGrid ? GRID_SIZE : undefined,
+  }), [viewport.scale, snapToGrid]);
+
+  // Adjust a proposed move of the given elements by (dx, dy) and show the
+  // guides and distances for where they end up
+  const snapDrag = useCallback((ids: string[], dx: number, dy: number) => {
+    const bounds = getElementsBBox(ids, 0);
+    if (!bounds) return { dx, dy };
+    const targets = getSnapTargets(ids);
+    const result = snapMove(bounds, dx, dy, targets, snapOptions);
+    setSnapGuides(result.guides);
+    setDistanceBadges(getDistanceBadges(result.bounds, targets));
+    return result;
+  }, [getElementsBBox, getSnapTargets, snapOptions]);
+
+  // Transformer anchors snap as well. Konva passes positions in stage space.
+  const snapAnchor = useCallback((_oldPos: Vector2d, newPos: Vector2d): Vector2d => {
+    const point = {
+      x: (newPos.x - viewport.x) / viewport.scale,
+      y: (newPos.y - viewport.y) / viewport.scale,
+    };
+    const result = snapPoint(point, getSnapTargets(selectedIds), snapOptions);
+    setSnapGuides(result.guides);
+    return {
+      x: result.x * viewport.scale + viewport.x,
+      y: result.y * viewport.scale + viewport.y,
+    };
+  }, [viewport, selectedIds, getSnapTargets, snapOptions]);
+
+  const clearSnapping = useCallback(() => {
+    snapTargetsRef.current = null;
+    setSnapGuides([]);
+    setDistanceBadges([]);
+  }, []);
+
   // ---------------------------------------------------------------------------
   // Group Drag Handle: When more than one item is selected, render a transparent,
   // dashed rectangle that you can drag to move all selected objects.
   // ---------------------------------------------------------------------------
-  const handleGroupDragMove = useCallback((e: KonvaEventObject<DragEvent>) => {
-    if (!groupBBox) return;
-    
-    const newPos = e.target.position();
-    const deltaX = newPos.x - groupBBox.x;
-    const deltaY = newPos.y - groupBBox.y;
+  // Move each listed element by its own offset; locked elements stay put
+  const moveElements = useCallback((offsets: Map<string, { dx: number; dy: number }>) => {
+    const getOffset = (element: { id: string; locked?: boolean }) =>
+      element.locked ? undefined : offsets.get(element.id);
 
     // Update images
-    const newImages = images.map(img => 
-      selectedIds.includes(img.id)
-        ? { ...img, x: img.x + deltaX, y: img.y + deltaY }
-        : img
-    );
+    const newImages = images.map(img => {
+      const offset = getOffset(img);
+      return offset
+        ? { ...img, x: img.x + offset.dx, y: img.y + offset.dy }
+        : img;
+    });
     
-    // Update shapes
+    // Update shapes. Connectors stay bound only to elements that move along.
     const newShapes = shapes.map(shape => {
-      if (!selectedIds.includes(shape.id)) return shape;
-      
-      if (shape.type === "star" || shape.type === "arrow" || shape.type === "line" || shape.type === "triangle") {
-        // For shapes with points, update all points
-        return {
-          ...shape,
-          points: shape.points?.map((coord, index) => 
-            index % 2 === 0 ? coord + deltaX : coord + deltaY
-          )
-        };
-      } else {
-        // For regular shapes, just update x and y
-        return { ...shape, x: shape.x + deltaX, y: shape.y + deltaY };
-      }
+      const offset = getOffset(shape);
+      return offset
+        ? translateShape(detachConnectorEnds(shape, [...offsets.keys()]), offset.dx, offset.dy)
+        : shape;
     });
     
     // Update lines
-    const newLines = lines.map(line => 
-      selectedIds.includes(line.id)
+    const newLines = lines.map(line => {
+      const offset = getOffset(line);
+      return offset
         ? {
             ...line,
             points: line.points.map((coord, index) => 
-              index % 2 === 0 ? coord + deltaX : coord + deltaY
+              index % 2 === 0 ? coord + offset.dx : coord + offset.dy
             )
           }
-        : line
-    );
+        : line;
+    });
+
+    // Update text elements
+    const newTexts = texts.map(text => {
+      const offset = getOffset(text);
+      return offset
+        ? { ...text, x: text.x + offset.dx, y: text.y + offset.dy }
+        : text;
+    });
 
     // Update all at once
-    updateImages(newImages);
-    updateShapes(newShapes);
-    updateLines(newLines);
+    batch(() => {
+      updateImages(newImages);
+      updateShapes(newShapes);
+      updateLines(newLines);
+      updateTexts(newTexts);
+    });
+  }, [images, shapes, lines, texts, updateImages, updateShapes, updateLines, updateTexts, batch]);
+
+  const translateSelection = useCallback((deltaX: number, deltaY: number) => {
+    moveElements(new Map(selectedIds.map((id) => [id, { dx: deltaX, dy: deltaY }])));
+  }, [selectedIds, moveElements]);
+
+  const handleGroupDragMove = useCallback((e: KonvaEventObject<DragEvent>) => {
+    if (!groupBBox) return;
+    
+    const newPos = e.target.position();
+    const snapped = snapDrag(selectedIds, newPos.x - groupBBox.x, newPos.y - groupBBox.y);
+    translateSelection(snapped.dx, snapped.dy);
 
     // Reset the group position
     e.target.position({ x: groupBBox.x, y: groupBBox.y });
-  }, [groupBBox, selectedIds, images, shapes, lines, updateImages, updateShapes, updateLines]);
-
-  const handleGroupDragEnd = useCallback(() => {
-    addHistoryEntry(stateRef.current);
-  }, [addHistoryEntry]);
+  }, [groupBBox, selectedIds, snapDrag, translateSelection]);
+
+  // Every move of a drag is merged into one undo step
+  const handleDragStart = useCallback(() => {
+    history.pause();
+  }, [history]);
+
+  const handleDragEnd = useCallback(() => {
+    history.resume();
+    clearSnapping();
+  }, [history, clearSnapping]);
+
+  // Resize everything in a multi-selection except locked elements. The
+  // transformer scales the group rect; the scale is baked into each element
+  // when the transform ends.
+  const handleGroupTransformEnd = useCallback(() => {
+    clearSnapping();
+    const node = groupRectRef.current;
+    if (!node || !groupBBox) return;
+
+    const scaleX = node.scaleX();
+    const scaleY = node.scaleY();
+    node.scaleX(1);
+    node.scaleY(1);
+
+    const mapX = (value: number) => node.x() + (value - groupBBox.x) * scaleX;
+    const mapY = (value: number) => node.y() + (value - groupBBox.y) * scaleY;
+    const isScaled = (element: { id: string; locked?: boolean }) =>
+      selectedIds.includes(element.id) && !element.locked;
+
+    const newImages = images.map((img) => {
+      if (!isScaled(img)) return img;
+      const dims = imageDimensions.get(img.id) || { width: IMAGE_WIDTH, height: IMAGE_HEIGHT };
+      return {
+        ...img,
+        x: mapX(img.x),
+        y: mapY(img.y),
+        width: (img.width ?? dims.width) * scaleX,
+        height: (img.height ?? dims.height) * scaleY
+      };
+    });
 
-  // ---------------------------------------------------------------------------
-  // File Drop & Resize Handlers
-  // ---------------------------------------------------------------------------
-  const handleDrop = useCallback(async (e: DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    const stage = stageRef.current;
-    if (!stage) return;
+    const newShapes = shapes.map((shape) => {
+      if (!isScaled(shape)) return shape;
+      const origin = getShapeOrigin(shape);
+      return scaleShape(detachConnectorEnds(shape, selectedIds), mapX(origin.x), mapY(origin.y), scaleX, scaleY);
+    });
 
-    // Get the drop position relative to the stage
-    const stageBox = stage.container().getBoundingClientRect();
-    const pointerPosition = {
-      x: (e.clientX - stageBox.left - viewport.x) / viewport.scale,
+    const newLines = lines.map((line) =>
+      isScaled(line)
+        ? {
+            ...line,
+            points: line.points.map((coord, index) =>
+              index % 2 === 0 ? mapX(coord) : mapY(coord)
+            )
+          }
+        : line
+    );
+
+    // Text grows with the smaller side so it still fits its box
+    const textScale = Math.min(scaleX, scaleY);
+    const newTexts = texts.map((text) =>
+      isScaled(text)
+        ? {
+            ...text,
+            x: mapX(text.x),
+            y: mapY(text.y),
+            width: text.width * scaleX,
+            height: text.height * scaleY,
+            fontSize: text.fontSize * textScale
+          }
+        : text
+    );
+
+    batch(() => {
+      updateImages(newImages);
+      updateShapes(newShapes);
+      updateLines(newLines);
+      updateTexts(newTexts);
+    });
+  }, [groupBBox, selectedIds, images, shapes, lines, texts, imageDimensions, updateImages, updateShapes, updateLines, updateTexts, batch, clearSnapping]);
+
+  const hasGroupSelection = selectedIds.length > 1 && groupBBox !== null;
+
+  useEffect(() => {
+    const transformer = groupTransformerRef.current;
+    if (!transformer) return;
+    transformer.nodes(groupRectRef.current ? [groupRectRef.current] : []);
+    transformer.getLayer()?.batchDraw();
+  }, [hasGroupSelection]);
+
+  // ---------------------------------------------------------------------------
+  // Groups: clicking a grouped element selects its whole group, double-click
+  // enters the group to pick its children one at a time (see utils/groups)
+  // ---------------------------------------------------------------------------
+  // The entered group only applies to its own members; everything else is
+  // picked from the top level
+  const getPickScope = useCallback((element: { groupIds?: string[] }) => {
+    return editingGroupId && element.groupIds?.includes(editingGroupId) ? editingGroupId : null;
+  }, [editingGroupId]);
+
+  const handleElementClick = useCallback((id: string, shiftKey: boolean) => {
+    const element = allElements.find((item) => item.id === id);
+    if (!element || isReadOnly) return;
+    const scope = getPickScope(element);
+    if (scope !== editingGroupId) setEditingGroupId(null);
+
+    const groupId = getSelectionGroupId(element, scope);
+    const ids = groupId ? getGroupMemberIds(allElements, groupId) : [id];
+    if (shiftKey) {
+      setSelectedIds((prev) =>
+        prev.includes(id)
+          ? prev.filter((selectedId) => !ids.includes(selectedId))
+          : Array.from(new Set([...prev, ...ids]))
+      );
+    } else {
+      setSelectedIds(ids);
+    }
+  }, [allElements, editingGroupId, getPickScope, isReadOnly]);
+
+  // Enter the group the element is picked with and select the element, or
+  // its subgroup, inside it. Returns false when there is no group to enter.
+  const enterGroupAt = useCallback((id: string) => {
+    const element = allElements.find((item) => item.id === id);
+    if (!element || isReadOnly) return false;
+    const groupId = getSelectionGroupId(element, getPickScope(element));
+    if (!groupId) return false;
+
+    setEditingGroupId(groupId);
+    const innerGroupId = getSelectionGroupId(element, groupId);
+    setSelectedIds(innerGroupId ? getGroupMemberIds(allElements, innerGroupId) : [id]);
+    return true;
+  }, [allElements, getPickScope, isReadOnly]);
+
+  // The group rect covers its children, so look up the topmost selected
+  // element under the pointer
+  const handleGroupDblClick = useCallback(() => {
+    const pointer = stageRef.current?.getPointerPosition();
+    if (!pointer) return;
+    const x = (pointer.x - viewport.x) / viewport.scale;
+    const y = (pointer.y - viewport.y) / viewport.scale;
+    const hit = [...orderedElements].reverse().find(({ element }) => {
+      if (!selectedIds.includes(element.id) || element.hidden) return false;
+      const bounds = getElementsBBox([element.id]);
+      return bounds !== null &&
+        x >= bounds.x && x <= bounds.x + bounds.width &&
+        y >= bounds.y && y <= bounds.y + bounds.height;
+    });
+    if (hit) enterGroupAt(hit.element.id);
+  }, [viewport, orderedElements, selectedIds, getElementsBBox, enterGroupAt]);
+
+  // Leave the entered group, keeping it selected; nested groups step out
+  // one level at a time
+  const exitGroup = useCallback(() => {
+    if (!editingGroupId) return;
+    const member = allElements.find((item) => item.groupIds?.includes(editingGroupId));
+    const groupIds = member?.groupIds ?? [];
+    setEditingGroupId(groupIds[groupIds.indexOf(editingGroupId) - 1] ?? null);
+    setSelectedIds(getGroupMemberIds(allElements, editingGroupId));
+  }, [allElements, editingGroupId]);
+
+  const handleGroup = useCallback(() => {
+    if (countSelectionUnits(allElements, selectedIds, editingGroupId) < 2) return;
+    setGroupIds(groupElements(allElements, selectedIds, editingGroupId, createGroupId()));
+  }, [allElements, selectedIds, editingGroupId, setGroupIds]);
+
+  const handleUngroup = useCallback(() => {
+    const changes = ungroupElements(allElements, selectedIds, editingGroupId);
+    if (changes.size > 0) setGroupIds(changes);
+  }, [allElements, selectedIds, editingGroupId, setGroupIds]);
+
+  // Lock/hide toggle for the whole selection: if any selected element has the
+  // flag it is cleared everywhere, otherwise it is set everywhere
+  const selectedElements = useMemo(
+    () => allElements.filter((item) => selectedIds.includes(item.id)),
+    [allElements, selectedIds]
+  );
+  const isSelectionLocked = selectedElements.some((item) => item.locked);
+  const isSelectionHidden = selectedElements.some((item) => item.hidden);
+
+  const handleToggleLocked = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    setElementFlags(selectedIds, { locked: !isSelectionLocked });
+  }, [selectedIds, isSelectionLocked, setElementFlags]);
+
+  const handleToggleHidden = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    setElementFlags(selectedIds, { hidden: !isSelectionHidden });
+  }, [selectedIds, isSelectionHidden, setElementFlags]);
+
+  // ---------------------------------------------------------------------------
+  // Align, distribute and tidy up (see app/utils/align.ts)
+  // ---------------------------------------------------------------------------
+  // The selection as the things that move independently: whole groups at the
+  // current level, or single elements. Locked elements don't take part.
+  const alignItemGroups = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    selectedElements.forEach((element) => {
+      if (element.locked) return;
+      const key = getSelectionGroupId(element, editingGroupId) ?? element.id;
+      groups.set(key, [...(groups.get(key) ?? []), element.id]);
+    });
+    return groups;
+  }, [selectedElements, editingGroupId]);
+
+  // Applies item offsets to every member in one batch, so one undo step
+  const arrangeItems = useCallback((arrange: (items: AlignItem[]) => ItemOffsets) => {
+    const items = [...alignItemGroups].flatMap(([id, memberIds]) => {
+      const bounds = getElementsBBox(memberIds, 0);
+      return bounds ? [{ id, bounds }] : [];
+    });
+    const itemOffsets = arrange(items);
+    if (itemOffsets.size === 0) return;
+
+    const offsets = new Map<string, { dx: number; dy: number }>();
+    itemOffsets.forEach((offset, id) => {
+      alignItemGroups.get(id)?.forEach((memberId) => offsets.set(memberId, offset));
+    });
+    moveElements(offsets);
+  }, [alignItemGroups, getElementsBBox, moveElements]);
+
+  const handleAlign = useCallback((action: AlignAction) => {
+    arrangeItems((items) => alignItems(items, action));
+  }, [arrangeItems]);
+
+  const handleDistribute = useCallback((axis: DistributeAxis) => {
+    arrangeItems((items) => distributeItems(items, axis));
+  }, [arrangeItems]);
+
+  const handleTidyUp = useCallback(() => {
+    arrangeItems(tidyUpItems);
+  }, [arrangeItems]);
+
+  // ---------------------------------------------------------------------------
+  // Connectors (see app/utils/connectors.ts)
+  // ---------------------------------------------------------------------------
+  const selectedConnectors = useMemo(
+    () => shapes.filter((shape) => selectedIds.includes(shape.id) && isConnectorType(shape.type)),
+    [shapes, selectedIds]
+  );
+  const isSelectionElbow = selectedConnectors.some((shape) => shape.routing === "elbow");
+
+  // Switch the selected lines and arrows between straight and elbow routes
+  const handleToggleRouting = useCallback(() => {
+    if (selectedConnectors.length === 0) return;
+    const routing = isSelectionElbow ? undefined : "elbow";
+    const targets = getConnectableBounds({ images, shapes, lines, texts }, imageDimensions);
+    updateShapes(shapes.map((shape) =>
+      selectedConnectors.includes(shape) ? layoutConnector({ ...shape, routing }, targets) : shape
+    ));
+  }, [selectedConnectors, isSelectionElbow, images, shapes, lines, texts, imageDimensions, updateShapes]);
+
+  const handleLabelChange = useCallback((id: string, value: string) => {
+    updateShapes(shapes.map((shape) => shape.id === id ? { ...shape, label: value } : shape));
+  }, [shapes, updateShapes]);
+
+  // Labels left empty are removed
+  const handleLabelEditEnd = useCallback(() => {
+    const edited = shapes.find((shape) => shape.id === editingLabelId);
+    setEditingLabelId(null);
+    if (edited?.label !== undefined && edited.label.trim() === "") {
+      updateShapes(shapes.map((shape) => shape.id === edited.id ? { ...shape, label: undefined } : shape));
+    }
+  }, [shapes, editingLabelId, updateShapes]);
+
+  // A whole label edit is one undo step, like text editing
+  useEffect(() => {
+    if (!editingLabelId) return;
+    history.pause();
+    return () => history.resume();
+  }, [editingLabelId, history]);
+
+  // ---------------------------------------------------------------------------
+  // Layers panel
+  // ---------------------------------------------------------------------------
+  // Picking a row selects exactly that element, entering its group if needed,
+  // and brings it into view
+  const handleLayerSelect = useCallback((id: string, additive: boolean) => {
+    const element = allElements.find((item) => item.id === id);
+    if (!element) return;
+    setEditingGroupId(element.groupIds?.[element.groupIds.length - 1] ?? null);
+
+    if (additive) {
+      setSelectedIds((prev) =>
+        prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]
+      );
+      return;
+    }
+    setSelectedIds([id]);
+
+    const bounds = getElementsBBox([id]);
+    if (!bounds) return;
+    updateViewport({
+      ...viewport,
+      x: stageDimensions.width / 2 - (bounds.x + bounds.width / 2) * viewport.scale,
+      y: stageDimensions.height / 2 - (bounds.y + bounds.height / 2) * viewport.scale,
+    });
+  }, [allElements, getElementsBBox, viewport, stageDimensions, updateViewport]);
+
+  const handleLayerMove = useCallback((ids: string[], targetId: string, position: "above" | "below") => {
+    const zIndices = moveElementsTo({ images, shapes, lines, texts }, ids, targetId, position);
+    if (zIndices.size > 0) setZIndices(zIndices);
+  }, [images, shapes, lines, texts, setZIndices]);
+
+  const handleLayerToggleFlag = useCallback((id: string, flag: "locked" | "hidden") => {
+    const element = allElements.find((item) => item.id === id);
+    if (element) setElementFlags([id], { [flag]: !element[flag] });
+  }, [allElements, setElementFlags]);
+
+  // Drop out of a group that no longer exists (ungrouped, deleted or undone)
+  useEffect(() => {
+    if (editingGroupId && getGroupMemberIds(allElements, editingGroupId).length === 0) {
+      setEditingGroupId(null);
+    }
+  }, [allElements, editingGroupId]);
+
+  const editingGroupBBox = useMemo(
+    () => editingGroupId ? getElementsBBox(getGroupMemberIds(allElements, editingGroupId)) : null,
+    [editingGroupId, allElements, getElementsBBox]
+  );
+
+  // ---------------------------------------------------------------------------
+  // File Drop & Resize Handlers
+  // ---------------------------------------------------------------------------
+
+  // Upload image files in parallel, laid out in a grid centered on `center`.
+  // Each file gets a `loading-` placeholder until its upload finishes.
+  const handleImageFilesUpload = useCallback(async (
+    files: File[],
+    center: { x: number; y: number }
+  ) => {
+    const columns = Math.ceil(Math.sqrt(files.length));
+    const rows = Math.ceil(files.length / columns);
+    const cellWidth = IMAGE_WIDTH + UPLOAD_GRID_GAP;
+    const cellHeight = IMAGE_HEIGHT + UPLOAD_GRID_GAP;
+    const originX = center.x - (columns * cellWidth - UPLOAD_GRID_GAP) / 2;
+    const originY = center.y - (rows * cellHeight - UPLOAD_GRID_GAP) / 2;
+
+    const batchId = Date.now();
+    const placeholders = files.map((_, index) => ({
+      id: `loading-${batchId}-${index}`,
+      url: '', // placeholder
+      x: originX + (index % columns) * cellWidth,
+      y: originY + Math.floor(index / columns) * cellHeight
+    }));
+    updateImages([...images, ...placeholders]);
+
+    const results = await runWithConcurrency(files, UPLOAD_CONCURRENCY, async (file, index) => {
+      const placeholderId = placeholders[index].id;
+      try {
+        // Create a plain object with the necessary file data
+        const imageUrl = await handleClientUpload({
+          arrayBuffer: () => file.arrayBuffer(),
+          type: file.type,
+          size: file.size,
+          name: file.name
+        }, roomId);
+        // Replace loading image with actual image
+        patchImage(placeholderId, { url: imageUrl });
+      } catch (uploadError) {
+        // Remove loading image if upload fails
+        patchImage(placeholderId, null);
+        throw uploadError;
+      }
+    });
+
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failures.length > 0) {
+      const reason = failures[0].reason;
+      throw new Error(
+        `${failures.length} of ${files.length} uploads failed: ${reason instanceof Error ? reason.message : String(reason)}`
+      );
+    }
+  }, [images, roomId, updateImages, patchImage]);
+  const handleDrop = useCallback(async (e: DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const stage = stageRef.current;
+    if (!stage || isReadOnly) return;
+
+    // Get the drop position relative to the stage
+    const stageBox = stage.container().getBoundingClientRect();
+    const pointerPosition = {
+      x: (e.clientX - stageBox.left - viewport.x) / viewport.scale,
       y: (e.clientY - stageBox.top - viewport.y) / viewport.scale
     };
     
+    // Drop data is only readable synchronously, so grab it before awaiting
+    const html = e.dataTransfer?.getData('text/html');
+    const uriData = e.dataTransfer?.getData('text/uri-list') || e.dataTransfer?.getData('text/plain');
+
     try {
-      // First check if files were dropped
-      const files = Array.from(e.dataTransfer?.files || []);
-      if (files.length > 0) {
-        // Handle local file upload
-        const file = files[0];
-        if (!file.type.startsWith('image/')) {
+      // First check if files (or folders) were dropped
+      if (e.dataTransfer && e.dataTransfer.files.length > 0) {
+        const files = (await getDroppedFiles(e.dataTransfer))
+          .filter((file) => file.type.startsWith('image/'));
+        if (files.length === 0) {
           throw new Error('Only image files are supported');
         }
-        
-        // Create a plain object with the necessary file data
-        const fileData = {
-          arrayBuffer: async () => {
-            const buffer = await file.arrayBuffer();
-            return buffer;
-          },
-          type: file.type,
-          size: file.size,
-          name: file.name
-        };
-        
-        // Show loading state
-        const loadingId = `loading-${Date.now()}`;
-        const loadingImage = {
-          id: loadingId,
-          url: '', // placeholder
-          x: pointerPosition.x - IMAGE_WIDTH / 2,
-          y: pointerPosition.y - IMAGE_HEIGHT / 2
-        };
-        updateImages([...images, loadingImage]);
-        
-        try {
-          // Upload the file to S3
-          const imageUrl = await handleClientUpload(fileData);
-          
-          // Replace loading image with actual image
-          const newImage = {
-            ...loadingImage,
-            url: imageUrl
-          };
-          
-          updateImages(images.map(img => 
-            img.id === loadingId ? newImage : img
-          ));
-          
-          addHistoryEntry({
-            ...stateRef.current,
-            images: images.map(img => 
-              img.id === loadingId ? newImage : img
-            )
-          });
-          return;
-        } catch (uploadError) {
-          // Remove loading image if upload fails
-          updateImages(images.filter(img => img.id !== loadingId));
-          throw uploadError;
-        }
+        await handleImageFilesUpload(files, pointerPosition);
+        return;
       }
 
       // Try to get image URL from HTML content first
-      const html = e.dataTransfer?.getData('text/html');
       if (html) {
         const parser = new DOMParser();
         const doc = parser.parseFromString(html, 'text/html');
@@ -933,16 +1934,12 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
           };
           
           updateImages([...images, newImage]);
-          addHistoryEntry({
-            ...stateRef.current,
-            images: [...images, newImage]
-          });
           return;
         }
       }
 
       // If no HTML content, try other data types
-      const imageUrl = e.dataTransfer?.getData('text/uri-list') || e.dataTransfer?.getData('text/plain');
+      const imageUrl = uriData;
       
       if (!imageUrl) {
         console.error('No image URL found in dropped content');
@@ -965,10 +1962,6 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         };
         
         updateImages([...images, newImage]);
-        addHistoryEntry({
-          ...stateRef.current,
-          images: [...images, newImage]
-        });
 
       } catch (error) {
         console.error('Error processing dropped image:', error);
@@ -980,30 +1973,177 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
       console.error('Error handling image drop:', err);
       alert(`Error adding image: ${err.message}`);
     }
-  }, [images, viewport.scale, viewport.x, viewport.y, updateImages, addHistoryEntry, stateRef]);
+  }, [images, viewport.scale, viewport.x, viewport.y, updateImages, handleImageFilesUpload, isReadOnly]);
 
+  // Delete the selection except locked elements, which stay selected
   const handleDelete = useCallback(() => {
-    if (selectedIds.length > 0) {
-      const newImages = images.filter((img) => !selectedIds.includes(img.id));
-      const newShapes = shapes.filter((shape) => !selectedIds.includes(shape.id));
-      const newLines = lines.filter((line) => !selectedIds.includes(line.id));
+    if (selectedIds.length > 0 && !isReadOnly) {
+      const isKept = (element: { id: string; locked?: boolean }) =>
+        !selectedIds.includes(element.id) || !!element.locked;
+      const newImages = images.filter(isKept);
+      const newShapes = shapes.filter(isKept);
+      const newLines = lines.filter(isKept);
+      const newTexts = texts.filter(isKept);
       
-      updateImages(newImages);
-      updateShapes(newShapes);
-      updateLines(newLines);
-      setSelectedIds([]);
-      addHistoryEntry(stateRef.current);
+      batch(() => {
+        updateImages(newImages);
+        updateShapes(newShapes);
+        updateLines(newLines);
+        updateTexts(newTexts);
+      });
+      setSelectedIds(allElements.filter((item) => item.locked && selectedIds.includes(item.id)).map((item) => item.id));
     }
-  }, [selectedIds, images, shapes, lines, updateImages, updateShapes, updateLines, addHistoryEntry]);
+  }, [selectedIds, images, shapes, lines, texts, allElements, updateImages, updateShapes, updateLines, updateTexts, batch, isReadOnly]);
 
   const handleImageDragEnd = useCallback(
     (id: string, newX: number, newY: number) => {
-      const newImages = images.map((img: Storage["images"][0]) =>
+      clearSnapping();
+      const newImages = images.map((img) =>
         img.id === id ? { ...img, x: newX, y: newY } : img
       );
       updateImages(newImages);
     },
-    [images, updateImages]
+    [images, updateImages, clearSnapping]
+  );
+
+  const handleTextDragEnd = useCallback(
+    (id: string, newX: number, newY: number) => {
+      clearSnapping();
+      const newTexts = texts.map((text) =>
+        text.id === id ? { ...text, x: newX, y: newY } : text
+      );
+      updateTexts(newTexts);
+    },
+    [texts, updateTexts, clearSnapping]
+  );
+
+  const handleTextChange = useCallback((id: string, value: string) => {
+    updateTexts(texts.map((text) =>
+      text.id === id
+        ? {
+            ...text,
+            text: value,
+            ...measureTextBounds({ type: text.type, text: value, fontSize: text.fontSize, width: text.width }),
+          }
+        : text
+    ));
+  }, [texts, updateTexts]);
+
+  const handleTextEditEnd = useCallback(() => {
+    const editedText = texts.find((text) => text.id === editingTextId);
+    setEditingTextId(null);
+    if (!editedText) return;
+
+    // Plain text with nothing in it is dropped instead of left invisible
+    if (editedText.type === "text" && editedText.text.trim() === "") {
+      const newTexts = texts.filter((text) => text.id !== editedText.id);
+      updateTexts(newTexts);
+      setSelectedIds((prev) => prev.filter((id) => id !== editedText.id));
+    }
+  }, [texts, editingTextId, updateTexts]);
+
+  // Typing updates storage on every keystroke; keep a whole editing session
+  // as one undo step
+  useEffect(() => {
+    if (!editingTextId) return;
+    history.pause();
+    return () => history.resume();
+  }, [editingTextId, history]);
+
+  // Apply font size / color changes to the selected text elements as well
+  const handleFontSizeChange = useCallback((size: number) => {
+    setFontSize(size);
+    if (!texts.some((text) => selectedIds.includes(text.id))) return;
+    updateTexts(texts.map((text) =>
+      selectedIds.includes(text.id)
+        ? {
+            ...text,
+            fontSize: size,
+            ...measureTextBounds({ type: text.type, text: text.text, fontSize: size, width: text.width }),
+          }
+        : text
+    ));
+  }, [texts, selectedIds, updateTexts]);
+
+  const handleColorChange = useCallback((color: string) => {
+    setStrokeColor(color);
+    if (!texts.some((text) => selectedIds.includes(text.id))) return;
+    updateTexts(texts.map((text) =>
+      selectedIds.includes(text.id) ? { ...text, color } : text
+    ));
+  }, [texts, selectedIds, updateTexts]);
+
+  // Properties panel: edits the selected shapes and lines, or the style for new ones
+  const selectedShapes = useMemo(
+    () => shapes.filter((shape) => selectedIds.includes(shape.id)),
+    [shapes, selectedIds]
+  );
+  const selectedLines = useMemo(
+    () => lines.filter((line) => selectedIds.includes(line.id)),
+    [lines, selectedIds]
+  );
+
+  const panelStyle = useMemo<ShapeStyle>(() => {
+    const shape = selectedShapes[0];
+    if (shape) {
+      return {
+        fill: shape.fill ?? DEFAULT_SHAPE_STYLE.fill,
+        opacity: shape.opacity ?? DEFAULT_SHAPE_STYLE.opacity,
+        strokeWidth: shape.strokeWidth,
+        dash: shape.dash ?? DEFAULT_SHAPE_STYLE.dash,
+      };
+    }
+    const line = selectedLines[0];
+    if (line) {
+      return {
+        fill: shapeStyle.fill,
+        opacity: line.opacity ?? DEFAULT_SHAPE_STYLE.opacity,
+        strokeWidth: line.width,
+        dash: line.dash ?? DEFAULT_SHAPE_STYLE.dash,
+      };
+    }
+    return shapeStyle;
+  }, [selectedShapes, selectedLines, shapeStyle]);
+
+  const hasStyleableSelection = selectedShapes.length > 0 || selectedLines.length > 0;
+  const showPropertiesPanel =
+    hasStyleableSelection || activeTool === "pen" || activeTool === "highlighter" || isShapeTool(activeTool);
+  const showFillProperty = hasStyleableSelection
+    ? selectedShapes.some((shape) => isFillableShape(shape.type))
+    : isShapeTool(activeTool) && isFillableShape(activeTool);
+
+  const handleStyleChange = useCallback((style: Partial<ShapeStyle>) => {
+    setShapeStyle((prev) => ({ ...prev, ...style }));
+    if (!hasStyleableSelection) return;
+
+    const newShapes = shapes.map((shape) => {
+      if (!selectedIds.includes(shape.id)) return shape;
+      const { fill, ...strokeStyle } = style;
+      return {
+        ...shape,
+        ...strokeStyle,
+        ...(fill !== undefined && isFillableShape(shape.type) ? { fill } : {}),
+      };
+    });
+    const newLines = lines.map((line) => {
+      if (!selectedIds.includes(line.id)) return line;
+      return {
+        ...line,
+        ...(style.strokeWidth !== undefined ? { width: style.strokeWidth } : {}),
+        ...(style.opacity !== undefined ? { opacity: style.opacity } : {}),
+        ...(style.dash !== undefined ? { dash: style.dash } : {}),
+      };
+    });
+
+    batch(() => {
+      updateShapes(newShapes);
+      updateLines(newLines);
+    });
+  }, [hasStyleableSelection, shapes, lines, selectedIds, updateShapes, updateLines, batch]);
+
+  const hasSelectedText = useMemo(
+    () => texts.some((text) => selectedIds.includes(text.id)),
+    [texts, selectedIds]
   );
 
   const handleImageResize = useCallback((
@@ -1011,19 +2151,53 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     newWidth: number,
     newHeight: number,
     newX: number,
-    newY: number
+    newY: number,
+    rotation: number
   ) => {
+    clearSnapping();
     const newImages = images.map((img) =>
       img.id === id
-        ? { ...img, width: newWidth, height: newHeight, x: newX, y: newY }
+        ? { ...img, width: newWidth, height: newHeight, x: newX, y: newY, rotation }
         : img
     );
     updateImages(newImages);
-    addHistoryEntry({
-      ...stateRef.current,
-      images: newImages
-    });
-  }, [images, updateImages, addHistoryEntry, stateRef]);
+  }, [images, updateImages, clearSnapping]);
+
+  const handleShapeTransformEnd = useCallback((shape: Shape, node: Konva.Node) => {
+    clearSnapping();
+    const scaleX = node.scaleX();
+    const scaleY = node.scaleY();
+
+    // Bake the scale into the stored geometry and reset the node
+    node.scaleX(1);
+    node.scaleY(1);
+
+    // Reshaping a connector by hand releases its ends
+    const updatedShape = {
+      ...scaleShape(detachConnectorEnds(shape, []), node.x(), node.y(), scaleX, scaleY),
+      rotation: node.rotation(),
+    };
+    const newShapes = shapes.map((s) => s.id === shape.id ? updatedShape : s);
+    updateShapes(newShapes);
+  }, [shapes, updateShapes, clearSnapping]);
+
+  // Attach the shape transformer to the selected shape node
+  const selectedShape = selectedIds.length === 1
+    ? shapes.find((shape) => shape.id === selectedIds[0])
+    : undefined;
+  const selectedShapeId = selectedShape && !selectedShape.locked ? selectedShape.id : null;
+  // Circles and stars can only be drawn with equal sides, so resize them by corners
+  const keepSelectedShapeRatio = selectedShape?.type === "circle" || selectedShape?.type === "star";
+
+  useEffect(() => {
+    const transformer = shapeTransformerRef.current;
+    if (!transformer) return;
+    const node = selectedShapeId
+      ? stageRef.current?.findOne((n: Konva.Node) => n.id() === selectedShapeId)
+      : undefined;
+    transformer.nodes(node ? [node] : []);
+    transformer.getLayer()?.batchDraw();
+  }, [selectedShapeId, shapes]);
 
   useEffect(() => {
     const container = stageRef.current?.container();
@@ -1062,16 +2236,6 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Delete" || e.key === "Backspace") {
-        handleDelete();
-      }
-    };
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [handleDelete]);
-
   const imageUrls = useMemo(() => [
     "https://xfigurabucket.s3.us-east-1.amazonaws.com/_a_hyper_realistic_rendering_of_an_organically_shaped_house_with_a_curved_marble_exterior__set_against_a_white_background__in_the_style_of_architectural_drawings__flux-dev-lora_1x1_46748.png",
     "https://xfigurabucket.s3.us-east-1.amazonaws.com/A+crazy+man+with+bla_-1.png",
@@ -1079,29 +2243,37 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
   ], []);
 
   // Move initial data loading to a separate effect that runs only when storage is ready
+  const isStorageInitialized = useRef(false);
   useEffect(() => {
     const initializeStorage = async () => {
-      if (!storage || isStorageLoading) return;
-
-      // Check if the room is completely new (no storage initialized)
-      const isNewRoom = !storage.images && !storage.shapes && !storage.lines;
+      if (!storage || isStorageLoading || isReadOnly || isStorageInitialized.current) return;
+      isStorageInitialized.current = true;
+
+      // initialStorage gives every room empty lists, so a new room is one
+      // where all of them are still empty
+      const isNewRoom = [storage.images, storage.shapes, storage.lines, storage.texts]
+        .every((list) => !list || list.length === 0);
+      migrateStorage();
       
       if (isNewRoom) {
         try {
           // Try to load from backup first
-          const backupData = await loadRoomBackup(roomId);
+          const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/backups/latest`);
+          if (!response.ok && response.status !== 404) {
+            throw new Error(`Could not load backup: ${response.statusText}`);
+          }
+          const backupData: CanvasState | null = response.ok ? await response.json() : null;
           
           if (backupData) {
             // If backup exists, use it
-            console.log('Loading room data from backup');
             await Promise.all([
               updateImages(backupData.images || []),
               updateShapes(backupData.shapes || []),
-              updateLines(backupData.lines || [])
+              updateLines(backupData.lines || []),
+              updateTexts(backupData.texts || [])
             ]);
           } else {
             // If no backup, initialize with default images
-            console.log('Initializing new room with default state');
             const initialImages = imageUrls.map((url, index) => ({
               id: `image-${index}`,
               url,
@@ -1112,70 +2284,126 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
             await Promise.all([
               updateImages(initialImages),
               updateShapes([]),
-              updateLines([])
+              updateLines([]),
+              updateTexts([])
             ]);
           }
         } catch (error) {
           console.error('Failed to initialize storage:', error);
         }
-      } else {
-        // Room exists in Liveblocks, use existing data
-        if (!storage.images) updateImages([]);
-        if (!storage.shapes) updateShapes([]);
-        if (!storage.lines) updateLines([]);
-        console.log('Room already has state, using existing data');
       }
+
+      // Loading the room is not a change anyone should be able to undo
+      history.clear();
     };
 
     initializeStorage();
-  }, [storage, isStorageLoading, updateImages, updateShapes, updateLines, imageUrls, roomId]);
-
-  const canUndo = currentIndex > 0;
-  const canRedo = currentIndex < history.length - 1;
-
-  const handleUndo = () => {
-    if (canUndo) {
-      const newIndex = currentIndex - 1;
-      const state = history[newIndex];
-      updateImages(state.images);
-      updateShapes(state.shapes);
-      updateLines(state.lines.map(line => ({ ...line, tool: "pen" })));
-      updateViewport(state.viewport);
-      setCurrentIndex(newIndex);
-    }
-  };
+  }, [storage, isStorageLoading, isReadOnly, migrateStorage, updateImages, updateShapes, updateLines, updateTexts, imageUrls, roomId, history]);
 
-  const handleRedo = () => {
-    if (canRedo) {
-      const newIndex = currentIndex + 1;
-      const state = history[newIndex];
-      updateImages(state.images);
-      updateShapes(state.shapes);
-      updateLines(state.lines.map(line => ({ ...line, tool: "pen" })));
-      updateViewport(state.viewport);
-      setCurrentIndex(newIndex);
-    }
-  };
+  const handleUndo = useCallback(() => {
+    history.undo();
+  }, [history]);
+
+  const handleRedo = useCallback(() => {
+    history.redo();
+  }, [history]);
 
   // Add clipboard handling functions
   const handleCopy = useCallback(() => {
     if (selectedIds.length === 0) return;
 
+    // Groups copied whole paste as groups
+    const keepWholeGroups = createGroupTrimmer(allElements, selectedIds);
     const clipboardData = {
-      images: images.filter(img => selectedIds.includes(img.id)),
-      shapes: shapes.filter(shape => selectedIds.includes(shape.id)),
-      lines: lines.filter(line => selectedIds.includes(line.id))
+      images: images.filter(img => selectedIds.includes(img.id)).map(keepWholeGroups),
+      shapes: shapes.filter(shape => selectedIds.includes(shape.id)).map(keepWholeGroups),
+      lines: lines.filter(line => selectedIds.includes(line.id)).map(keepWholeGroups),
+      texts: texts.filter(text => selectedIds.includes(text.id)).map(keepWholeGroups)
     };
 
     localStorage.setItem('canvas_clipboard', JSON.stringify(clipboardData));
-  }, [selectedIds, images, shapes, lines]);
+  }, [selectedIds, allElements, images, shapes, lines, texts]);
+
+  // Add copies of the given elements, moved by the offset, and select them
+  const insertCopies = useCallback((
+    source: BoardState,
+    offsetX: number,
+    offsetY: number
+  ) => {
+    // Copies go on top of the board, keeping their order among themselves
+    const nextZIndex = getNextZIndex({ images, shapes, lines, texts });
+    const zIndices = new Map(
+      getOrderedElements(source).map(({ element }, index) => [element.id, nextZIndex + index])
+    );
+    // Pasted groups are new groups, separate from the ones they were copied from
+    const freshGroupIds = createGroupIdRemapper();
+    // New ids up front, so copied connectors can be bound to the copies
+    const newIds = new Map(
+      getOrderedElements(source).map(({ kind, element }) => [element.id, `${kind}-${Date.now()}-${Math.random()}`])
+    );
+
+    // Create new items with new IDs and positions
+    const newImages = source.images.map((img) => ({
+      ...freshGroupIds(img),
+      id: newIds.get(img.id)!,
+      zIndex: zIndices.get(img.id),
+      x: img.x + offsetX,
+      y: img.y + offsetY
+    }));
+
+    const newShapes = source.shapes.map((shape) => ({
+      ...translateShape(remapConnectorEnds(freshGroupIds(shape), newIds), offsetX, offsetY),
+      id: newIds.get(shape.id)!,
+      zIndex: zIndices.get(shape.id)
+    }));
+
+    const newLines = source.lines.map((line) => ({
+      ...freshGroupIds(line),
+      id: newIds.get(line.id)!,
+      zIndex: zIndices.get(line.id),
+      points: line.points.map((coord: number, index: number) => 
+        index % 2 === 0 ? coord + offsetX : coord + offsetY
+      )
+    }));
+
+    const newTexts = source.texts.map((text) => ({
+      ...freshGroupIds(text),
+      id: newIds.get(text.id)!,
+      zIndex: zIndices.get(text.id),
+      x: text.x + offsetX,
+      y: text.y + offsetY
+    }));
+
+    // Update storage with new items
+    batch(() => {
+      updateImages([...images, ...newImages]);
+      updateShapes([...shapes, ...newShapes]);
+      updateLines([...lines, ...newLines]);
+      updateTexts([...texts, ...newTexts]);
+    });
+
+    // Select newly pasted items
+    setSelectedIds([...newImages, ...newShapes, ...newLines, ...newTexts].map((item) => item.id));
+  }, [images, shapes, lines, texts, updateImages, updateShapes, updateLines, updateTexts, batch]);
+
+  const handleDuplicate = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    const keepWholeGroups = createGroupTrimmer(allElements, selectedIds);
+    insertCopies({
+      images: images.filter(img => selectedIds.includes(img.id)).map(keepWholeGroups),
+      shapes: shapes.filter(shape => selectedIds.includes(shape.id)).map(keepWholeGroups),
+      lines: lines.filter(line => selectedIds.includes(line.id)).map(keepWholeGroups),
+      texts: texts.filter(text => selectedIds.includes(text.id)).map(keepWholeGroups)
+    }, DUPLICATE_OFFSET, DUPLICATE_OFFSET);
+  }, [selectedIds, allElements, images, shapes, lines, texts, insertCopies]);
 
   const handlePaste = useCallback(() => {
     const clipboardStr = localStorage.getItem('canvas_clipboard');
-    if (!clipboardStr) return;
+    if (!clipboardStr || isReadOnly) return;
 
     try {
       const clipboard = JSON.parse(clipboardStr);
+      const clipboardTexts: CanvasText[] = clipboard.texts ?? [];
       const stage = stageRef.current;
       if (!stage) return;
 
@@ -1189,107 +2417,607 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
       };
 
       // Calculate offset from original positions to maintain relative positioning
-      const offsetX = worldPos.x - (clipboard.images[0]?.x || clipboard.shapes[0]?.x || clipboard.lines[0]?.points[0] || 0);
-      const offsetY = worldPos.y - (clipboard.images[0]?.y || clipboard.shapes[0]?.y || clipboard.lines[0]?.points[1] || 0);
+      const offsetX = worldPos.x - (clipboard.images[0]?.x || clipboard.shapes[0]?.x || clipboard.lines[0]?.points[0] || clipboardTexts[0]?.x || 0);
+      const offsetY = worldPos.y - (clipboard.images[0]?.y || clipboard.shapes[0]?.y || clipboard.lines[0]?.points[1] || clipboardTexts[0]?.y || 0);
 
-      // Create new items with new IDs and positions
-      const newImages = clipboard.images.map((img: CanvasImage) => ({
-        ...img,
-        id: `image-${Date.now()}-${Math.random()}`,
-        x: img.x + offsetX,
-        y: img.y + offsetY
-      }));
+      insertCopies({ ...clipboard, texts: clipboardTexts }, offsetX, offsetY);
+    } catch (error) {
+      console.error('Failed to paste items:', error);
+    }
+  }, [viewport, insertCopies, isReadOnly]);
 
-      const newShapes = clipboard.shapes.map((shape: Shape) => ({
-        ...shape,
-        id: `shape-${Date.now()}-${Math.random()}`,
-        x: shape.x + offsetX,
-        y: shape.y + offsetY
-      }));
+  // Pasted content is placed at the pointer, or in the middle of the view
+  const getPastePosition = useCallback(() => {
+    const pointer = stageRef.current?.getPointerPosition() ?? {
+      x: stageDimensions.width / 2,
+      y: stageDimensions.height / 2
+    };
+    return {
+      x: (pointer.x - viewport.x) / viewport.scale,
+      y: (pointer.y - viewport.y) / viewport.scale
+    };
+  }, [viewport, stageDimensions]);
 
-      const newLines = clipboard.lines.map((line: Line) => ({
-        ...line,
-        id: `line-${Date.now()}-${Math.random()}`,
-        points: line.points.map((coord: number, index: number) => 
-          index % 2 === 0 ? coord + offsetX : coord + offsetY
-        )
-      }));
+  // ---------------------------------------------------------------------------
+  // Keyboard shortcuts (see app/utils/shortcuts.ts for the registry)
+  // ---------------------------------------------------------------------------
+  const zoomBy = useCallback((factor: number) => {
+    const newScale = Math.min(Math.max(viewport.scale * factor, MIN_SCALE), MAX_SCALE);
+    if (newScale === viewport.scale) return;
+    // Keep the middle of the screen in place
+    const center = { x: stageDimensions.width / 2, y: stageDimensions.height / 2 };
+    updateViewport({
+      scale: newScale,
+      x: center.x - ((center.x - viewport.x) / viewport.scale) * newScale,
+      y: center.y - ((center.y - viewport.y) / viewport.scale) * newScale,
+    });
+  }, [viewport, stageDimensions, updateViewport]);
 
-      // Update storage with new items
-      updateImages([...images, ...newImages]);
-      updateShapes([...shapes, ...newShapes]);
-      updateLines([...lines, ...newLines]);
+  const handleSelectAll = useCallback(() => {
+    setEditingGroupId(null);
+    setSelectedIds(allElements.map((item) => item.id));
+  }, [allElements]);
 
-      // Select newly pasted items
-      const newIds = [...newImages.map((img: CanvasImage) => img.id), 
-                     ...newShapes.map((shape: Shape) => shape.id),
-                     ...newLines.map((line: Line) => line.id)];
-      setSelectedIds(newIds);
-      
-      addHistoryEntry(stateRef.current);
-    } catch (error) {
-      console.error('Failed to paste items:', error);
+  const handleArrange = useCallback((action: ArrangeAction) => {
+    if (selectedIds.length === 0) return;
+    const zIndices = arrangeElements({ images, shapes, lines, texts }, selectedIds, action);
+    if (zIndices.size > 0) setZIndices(zIndices);
+  }, [images, shapes, lines, texts, selectedIds, setZIndices]);
+
+  const handleShortcut = useCallback((action: ShortcutAction, e: KeyboardEvent) => {
+    if (isReadOnly && !READ_ONLY_SHORTCUTS.has(action)) return;
+    if (action.startsWith("tool:")) {
+      setActiveTool(action.slice("tool:".length) as ToolType);
+      return;
+    }
+    if (action.startsWith("align:")) {
+      handleAlign(action.slice("align:".length) as AlignAction);
+      return;
     }
-  }, [viewport, images, shapes, lines, updateImages, updateShapes, updateLines, addHistoryEntry]);
 
-  // Add keyboard shortcut handler
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'c') {
-        handleCopy();
-      }
-      if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
-        handlePaste();
-      }
-      if (e.key === 'Delete' || e.key === 'Backspace') {
+    switch (action) {
+      case "undo":
+        handleUndo();
+        break;
+      case "redo":
+        handleRedo();
+        break;
+      case "duplicate":
+        handleDuplicate();
+        break;
+      case "delete":
         handleDelete();
+        break;
+      case "selectAll":
+        handleSelectAll();
+        break;
+      case "deselect":
+        if (editingGroupId) {
+          exitGroup();
+        } else {
+          setSelectedIds([]);
+        }
+        setActiveTool("select");
+        break;
+      case "nudge":
+      case "nudgeFar": {
+        if (selectedIds.length === 0) return;
+        const distance = action === "nudgeFar" ? NUDGE_FAR_DISTANCE : NUDGE_DISTANCE;
+        const [dx, dy] = {
+          ArrowLeft: [-distance, 0],
+          ArrowRight: [distance, 0],
+          ArrowUp: [0, -distance],
+          ArrowDown: [0, distance],
+        }[e.key] ?? [0, 0];
+        translateSelection(dx, dy);
+        break;
       }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleCopy, handlePaste, handleDelete]);
-
-  // Add context menu handler
-  const handleContextMenu = useCallback((e: KonvaEventObject<MouseEvent>) => {
-    e.evt.preventDefault();
-    if (selectedIds.length > 0) {
-      setContextMenu({
-        show: true,
-        x: e.evt.clientX,
-        y: e.evt.clientY
-      });
+      case "zoomIn":
+        zoomBy(KEYBOARD_ZOOM_FACTOR);
+        break;
+      case "zoomOut":
+        zoomBy(1 / KEYBOARD_ZOOM_FACTOR);
+        break;
+      case "zoomReset":
+        zoomBy(1 / viewport.scale);
+        break;
+      case "bringForward":
+        handleArrange("forward");
+        break;
+      case "sendBackward":
+        handleArrange("backward");
+        break;
+      case "bringToFront":
+        handleArrange("front");
+        break;
+      case "sendToBack":
+        handleArrange("back");
+        break;
+      case "group":
+        handleGroup();
+        break;
+      case "ungroup":
+        handleUngroup();
+        break;
+      case "toggleLocked":
+        handleToggleLocked();
+        break;
+      case "toggleHidden":
+        handleToggleHidden();
+        break;
+      case "distributeHorizontally":
+        handleDistribute("horizontal");
+        break;
+      case "distributeVertically":
+        handleDistribute("vertical");
+        break;
+      case "tidyUp":
+        handleTidyUp();
+        break;
+      case "toggleSnapToGrid":
+        setSnapToGrid((prev) => !prev);
+        break;
+      case "showShortcuts":
+        setShowShortcuts((prev) => !prev);
+        break;
     }
-  }, [selectedIds]);
+  }, [handleUndo, handleRedo, handleDuplicate, handleDelete, handleSelectAll, handleArrange, handleAlign, handleDistribute, handleTidyUp, handleGroup, handleUngroup, handleToggleLocked, handleToggleHidden, exitGroup, editingGroupId, selectedIds, translateSelection, zoomBy, viewport.scale, isReadOnly]);
 
-  // Add click handler to close context menu
   useEffect(() => {
-    const handleClick = () => setContextMenu({ show: false, x: 0, y: 0 });
-    window.addEventListener('click', handleClick);
-    return () => window.removeEventListener('click', handleClick);
-  }, []);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || editingTextId) return;
+      const shortcut = findShortcut(e);
+      if (!shortcut) return;
+      // The cheat sheet handles its own keys while open
+      if (showShortcuts && shortcut.action !== "showShortcuts") return;
+      e.preventDefault();
+      handleShortcut(shortcut.action, e);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleShortcut, editingTextId, showShortcuts]);
 
-  // Add this effect after other useEffect hooks
+  // Copy/paste go through the native clipboard events so pasting can also take
+  // screenshots and image links from other apps
   useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        updateMyPresence({ cursor: null, lastUpdate: Date.now() });
-      }
-    };
-    const handleBeforeUnload = () => {
-      updateMyPresence({ cursor: null, lastUpdate: Date.now() });
-    };
-    
-    document.addEventListener("visibilitychange", handleVisibilityChange);
-    window.addEventListener("beforeunload", handleBeforeUnload);
-    
-    return () => {
-      document.removeEventListener("visibilitychange", handleVisibilityChange);
-      window.removeEventListener("beforeunload", handleBeforeUnload);
-      updateMyPresence({ cursor: null, lastUpdate: Date.now() });
+    const handleCopyEvent = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || selectedIds.length === 0) return;
+      handleCopy();
+      // Mark the system clipboard so the next paste uses our own clipboard
+      e.clipboardData?.setData('text/plain', CANVAS_CLIPBOARD_MARKER);
+      e.preventDefault();
     };
-  }, [updateMyPresence]);
 
-  const othersWithTimestamp = useMemo(() => {
+    const handlePasteEvent = async (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || isReadOnly) return;
+      const clipboardData = e.clipboardData;
+      if (!clipboardData) return;
+      e.preventDefault();
+
+      // Clipboard data is only readable synchronously, so grab it before awaiting
+      const files = Array.from(clipboardData.items)
+        .filter((item) => item.kind === 'file' && item.type.startsWith('image/'))
+        .map((item) => item.getAsFile())
+        .filter((file): file is File => !!file);
+      const html = clipboardData.getData('text/html');
+      const text = clipboardData.getData('text/plain').trim();
+      const position = getPastePosition();
+
+      try {
+        if (files.length > 0) {
+          await handleImageFilesUpload(files, position);
+          return;
+        }
+
+        // Image copied from a web page, or a link to an image
+        const htmlImageUrl = html
+          ? new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.src
+          : undefined;
+        const imageUrl = htmlImageUrl || (isImageUrl(text) ? text : undefined);
+        if (imageUrl && text !== CANVAS_CLIPBOARD_MARKER) {
+          const newImage = {
+            id: `image-${Date.now()}-${Math.random()}`,
+            url: imageUrl,
+            x: position.x - IMAGE_WIDTH / 2,
+            y: position.y - IMAGE_HEIGHT / 2
+          };
+          updateImages([...images, newImage]);
+          setSelectedIds([newImage.id]);
+          return;
+        }
+
+        handlePaste();
+      } catch (error) {
+        console.error('Error pasting image:', error);
+        alert(`Error adding image: ${error instanceof Error ? error.message : 'Paste failed'}`);
+      }
+    };
+
+    window.addEventListener('copy', handleCopyEvent);
+    window.addEventListener('paste', handlePasteEvent);
+    return () => {
+      window.removeEventListener('copy', handleCopyEvent);
+      window.removeEventListener('paste', handlePasteEvent);
+    };
+  }, [selectedIds, images, handleCopy, handlePaste, handleImageFilesUpload, getPastePosition, updateImages, isReadOnly]);
+
+  // ---------------------------------------------------------------------------
+  // Export
+  // ---------------------------------------------------------------------------
+  const handleExport = useCallback(async ({ format, scope, pixelRatio }: ExportOptions) => {
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    const ids = scope === "selection" ? selectedIds : undefined;
+    const primitives = getExportPrimitives(
+      { images, shapes, lines, texts },
+      { ids, imageSizes: imageDimensions }
+    );
+    const bounds = scope === "viewport"
+      ? {
+          x: -viewport.x / viewport.scale,
+          y: -viewport.y / viewport.scale,
+          width: stageDimensions.width / viewport.scale,
+          height: stageDimensions.height / viewport.scale
+        }
+      : getPrimitivesBounds(primitives);
+    if (!bounds) {
+      alert("Nothing to export");
+      return;
+    }
+    const filename = `${roomId}-${scope}`;
+
+    if (format === "svg") {
+      downloadBlob(
+        new Blob([buildBoardSvg(primitives, bounds)], { type: "image/svg+xml" }),
+        `${filename}.svg`
+      );
+      return;
+    }
+
+    // Clear the selection so transformers and highlights aren't drawn, and hide
+    // the grid, cursors and (for selection exports) everything not selected
+    const previousSelection = selectedIds;
+    const elementIds = new Set([...images, ...shapes, ...lines, ...texts].map((item) => item.id));
+    setSelectedIds([]);
+    await nextFrame();
+    await nextFrame();
+
+    const hiddenNodes = stage.find((node: Konva.Node) =>
+      node.isVisible() && (
+        node.name() === EXPORT_HIDDEN_NAME ||
+        (!!ids && elementIds.has(node.id()) && !ids.includes(node.id()))
+      )
+    );
+    hiddenNodes.forEach((node) => node.hide());
+
+    try {
+      const canvas = stage.toCanvas({
+        x: bounds.x * viewport.scale + viewport.x,
+        y: bounds.y * viewport.scale + viewport.y,
+        width: bounds.width * viewport.scale,
+        height: bounds.height * viewport.scale,
+        pixelRatio: pixelRatio / viewport.scale
+      });
+
+      if (format === "png") {
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+        if (!blob) throw new Error("Could not encode PNG");
+        downloadBlob(blob, `${filename}.png`);
+      } else {
+        // JPEG has no transparency, so flatten onto white first
+        const flattened = document.createElement("canvas");
+        flattened.width = canvas.width;
+        flattened.height = canvas.height;
+        const ctx = flattened.getContext("2d");
+        if (!ctx) throw new Error("Could not create PDF canvas");
+        ctx.fillStyle = "#ffffff";
+        ctx.fillRect(0, 0, flattened.width, flattened.height);
+        ctx.drawImage(canvas, 0, 0);
+
+        const jpeg = await new Promise<Blob | null>((resolve) => flattened.toBlob(resolve, "image/jpeg", 0.92));
+        if (!jpeg) throw new Error("Could not encode PDF image");
+        const page = getPdfPageSize(bounds);
+        const pdf = createImagePdf(
+          new Uint8Array(await jpeg.arrayBuffer()),
+          flattened.width,
+          flattened.height,
+          page.width,
+          page.height
+        );
+        downloadBlob(new Blob([pdf], { type: "application/pdf" }), `${filename}.pdf`);
+      }
+    } catch (error) {
+      console.error("Error exporting board:", error);
+      alert(`Export failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      hiddenNodes.forEach((node) => node.show());
+      setSelectedIds(previousSelection);
+    }
+  }, [roomId, selectedIds, images, shapes, lines, texts, imageDimensions, viewport, stageDimensions]);
+
+  // ---------------------------------------------------------------------------
+  // Board files (.board.json)
+  // ---------------------------------------------------------------------------
+  const handleBoardExport = useCallback(() => {
+    const boardDocument = createBoardDocument({ images, shapes, lines, texts }, roomId);
+    downloadBlob(
+      new Blob([JSON.stringify(boardDocument, null, 2)], { type: "application/json" }),
+      `${roomId}${BOARD_FILE_EXTENSION}`
+    );
+  }, [images, shapes, lines, texts, roomId]);
+
+  const handleBoardImport = useCallback(async (file: File, mode: BoardImportMode) => {
+    try {
+      const { content } = parseBoardFile(await file.text());
+
+      if (mode === "replace") {
+        if (!window.confirm("Replace everything on this board with the imported file?")) return;
+        batch(() => {
+          updateImages(content.images);
+          updateShapes(content.shapes);
+          updateLines(content.lines);
+          updateTexts(content.texts);
+        });
+        setSelectedIds([]);
+        return;
+      }
+
+      // Merge: keep everything, give imported items that clash a new id and
+      // stack them above the current board in their own order
+      const existingIds = new Set([...images, ...shapes, ...lines, ...texts].map((item) => item.id));
+      const stamp = Date.now();
+      const nextZIndex = getNextZIndex({ images, shapes, lines, texts });
+      const zIndices = new Map(
+        getOrderedElements(content).map(({ element }, index) => [element.id, nextZIndex + index])
+      );
+      const freshGroupIds = createGroupIdRemapper();
+      const newIds = new Map(
+        getOrderedElements(content).map(({ element }) => [
+          element.id,
+          existingIds.has(element.id) ? `${element.id}-${stamp}` : element.id,
+        ])
+      );
+      const withFreshId = <T extends { id: string; zIndex?: number; groupIds?: string[] }>(item: T): T => ({
+        ...freshGroupIds(item),
+        id: newIds.get(item.id)!,
+        zIndex: zIndices.get(item.id),
+      });
+
+      const newImages = content.images.map(withFreshId);
+      const newShapes = content.shapes.map((shape) => remapConnectorEnds(withFreshId(shape), newIds));
+      const newLines = content.lines.map(withFreshId);
+      const newTexts = content.texts.map(withFreshId);
+
+      batch(() => {
+        updateImages([...images, ...newImages]);
+        updateShapes([...shapes, ...newShapes]);
+        updateLines([...lines, ...newLines]);
+        updateTexts([...texts, ...newTexts]);
+      });
+      setSelectedIds([...newImages, ...newShapes, ...newLines, ...newTexts].map((item) => item.id));
+    } catch (error) {
+      console.error("Error importing board file:", error);
+      alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }, [images, shapes, lines, texts, updateImages, updateShapes, updateLines, updateTexts, batch]);
+
+  // Add context menu handler
+  const openContextMenu = useCallback((target: Konva.Node, clientX: number, clientY: number) => {
+    if (isReadOnly) return;
+    // Right-clicking an unselected element selects it first, so locked
+    // elements can be unlocked without a separate click
+    let node: Konva.Node | null = target;
+    while (node && !allElements.some((item) => item.id === node!.id())) {
+      node = node.getParent();
+    }
+    const targetId = node?.id();
+    if (targetId && !selectedIds.includes(targetId)) {
+      handleElementClick(targetId, false);
+    }
+
+    if (selectedIds.length > 0 || targetId) {
+      setContextMenu({
+        show: true,
+        x: clientX,
+        y: clientY
+      });
+    }
+  }, [selectedIds, allElements, handleElementClick, isReadOnly]);
+
+  const handleContextMenu = useCallback((e: KonvaEventObject<MouseEvent>) => {
+    e.evt.preventDefault();
+    openContextMenu(e.target, e.evt.clientX, e.evt.clientY);
+  }, [openContextMenu]);
+
+  // Add click handler to close context menu
+  useEffect(() => {
+    const handleClick = () => setContextMenu({ show: false, x: 0, y: 0 });
+    window.addEventListener('click', handleClick);
+    return () => window.removeEventListener('click', handleClick);
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // Touch: pinch zoom, two-finger pan, long press for the context menu and
+  // one-finger drawing with shape and text tools. Freehand tools already
+  // work through pointer events.
+  // ---------------------------------------------------------------------------
+  const pinchStart = useRef<{ center: Vector2d; distance: number; viewport: ViewportState } | null>(null);
+  const longPress = useRef<{ timer: ReturnType<typeof setTimeout>; x: number; y: number; fired: boolean } | null>(null);
+  const [isTouchInput, setIsTouchInput] = useState(false);
+
+  useEffect(() => {
+    const handlePointerType = (e: PointerEvent) => setIsTouchInput(e.pointerType === "touch");
+    window.addEventListener("pointerdown", handlePointerType, true);
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerType, true);
+      if (longPress.current) clearTimeout(longPress.current.timer);
+    };
+  }, []);
+
+  // Midpoint and spread of two touches, relative to the stage container
+  const getTouchGesture = useCallback((touches: TouchList) => {
+    const rect = stageRef.current?.container().getBoundingClientRect();
+    const [a, b] = [touches[0], touches[1]];
+    return {
+      center: {
+        x: (a.clientX + b.clientX) / 2 - (rect?.left ?? 0),
+        y: (a.clientY + b.clientY) / 2 - (rect?.top ?? 0),
+      },
+      distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY) || 1,
+    };
+  }, []);
+
+  const clearLongPress = useCallback(() => {
+    if (longPress.current) clearTimeout(longPress.current.timer);
+    longPress.current = null;
+  }, []);
+
+  // A second finger turns whatever the first one started into a pinch
+  const cancelTouchDrawing = useCallback(() => {
+    if (isDrawing.current) {
+      isDrawing.current = false;
+      updateShapes(shapes.slice(0, -1));
+      history.resume();
+    }
+    if (freehandLineId.current) {
+      const lineId = freehandLineId.current;
+      freehandLineId.current = null;
+      updateLines(lines.filter((line) => line.id !== lineId));
+      history.resume();
+    }
+    if (lastEraserPoint.current) {
+      lastEraserPoint.current = null;
+      history.resume();
+    }
+    if (isSelecting) {
+      setIsSelecting(false);
+      setSelectionRect(null);
+      selectionStart.current = null;
+    }
+    setBusyIds([]);
+  }, [shapes, lines, isSelecting, history, updateShapes, updateLines]);
+
+  const handleTouchStart = useCallback((e: KonvaEventObject<TouchEvent>) => {
+    const stage = stageRef.current;
+    const touches = e.evt.touches;
+    if (!stage) return;
+    clearLongPress();
+
+    if (touches.length === 2) {
+      e.evt.preventDefault();
+      cancelTouchDrawing();
+      if (stage.isDragging()) stage.stopDrag();
+      pinchStart.current = {
+        ...getTouchGesture(touches),
+        viewport: { x: stage.x(), y: stage.y(), scale: stage.scaleX() },
+      };
+      return;
+    }
+    if (touches.length !== 1 || isFreehandTool(activeTool)) return;
+
+    if (isShapeTool(activeTool) || isTextTool(activeTool)) {
+      // Keeps the browser from replaying the touch as mouse events
+      e.evt.preventDefault();
+      handleMouseDown(e);
+      return;
+    }
+
+    const { clientX, clientY } = touches[0];
+    const target = e.target;
+    longPress.current = {
+      x: clientX,
+      y: clientY,
+      fired: false,
+      timer: setTimeout(() => {
+        if (!longPress.current) return;
+        longPress.current.fired = true;
+        if (stage.isDragging()) stage.stopDrag();
+        openContextMenu(target, clientX, clientY);
+      }, LONG_PRESS_DELAY),
+    };
+  }, [activeTool, getTouchGesture, clearLongPress, cancelTouchDrawing, handleMouseDown, openContextMenu]);
+
+  const handleTouchMove = useCallback((e: KonvaEventObject<TouchEvent>) => {
+    const touches = e.evt.touches;
+    const press = longPress.current;
+    if (
+      press &&
+      !press.fired &&
+      Math.hypot(touches[0].clientX - press.x, touches[0].clientY - press.y) > LONG_PRESS_TOLERANCE
+    ) {
+      clearLongPress();
+    }
+
+    const start = pinchStart.current;
+    if (touches.length === 2 && start) {
+      e.evt.preventDefault();
+      const { center, distance } = getTouchGesture(touches);
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, start.viewport.scale * (distance / start.distance)));
+      // Keep the point that was under the fingers at the start under their
+      // midpoint, which pans and zooms in one go
+      const pointTo = {
+        x: (start.center.x - start.viewport.x) / start.viewport.scale,
+        y: (start.center.y - start.viewport.y) / start.viewport.scale,
+      };
+      updateViewport({
+        scale,
+        x: center.x - pointTo.x * scale,
+        y: center.y - pointTo.y * scale,
+      });
+      return;
+    }
+
+    if (touches.length === 1 && isDrawing.current) {
+      e.evt.preventDefault();
+      handleMouseMove(e);
+    }
+  }, [getTouchGesture, clearLongPress, updateViewport, handleMouseMove]);
+
+  const handleTouchEnd = useCallback((e: KonvaEventObject<TouchEvent>) => {
+    // Stops the click that would close the menu a long press just opened
+    if (longPress.current?.fired) e.evt.preventDefault();
+    clearLongPress();
+    if (e.evt.touches.length < 2) pinchStart.current = null;
+    if (e.evt.touches.length === 0 && isDrawing.current) handleMouseUp();
+  }, [clearLongPress, handleMouseUp]);
+
+  // Clicking or tapping empty canvas clears the selection
+  const handleStageClick = useCallback((e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const clickedOnEmpty = e.target === e.target.getStage();
+    if (clickedOnEmpty && !isSelecting && !editingTextId) {
+      setSelectedIds([]);
+      setEditingGroupId(null);
+    }
+  }, [isSelecting, editingTextId]);
+
+  // Resize handles get a wider invisible grab area on touch screens
+  const styleTransformerAnchor = useCallback((anchor: Konva.Rect) => {
+    anchor.hitStrokeWidth(isTouchInput ? TOUCH_ANCHOR_HIT_WIDTH : "auto");
+  }, [isTouchInput]);
+
+  // Add this effect after other useEffect hooks
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        updateMyPresence({ cursor: null, lastUpdate: Date.now() });
+      }
+    };
+    const handleBeforeUnload = () => {
+      updateMyPresence({ cursor: null, lastUpdate: Date.now() });
+    };
+    
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      updateMyPresence({ cursor: null, lastUpdate: Date.now() });
+    };
+  }, [updateMyPresence]);
+
+  const othersWithTimestamp = useMemo(() => {
     return others.filter((user) => {
       if (!user.presence?.cursor) return false;
       const lastUpdate = user.presence?.lastUpdate || Date.now();
@@ -1298,31 +3026,530 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
     });
   }, [others]);
 
-  // Add backup check effect
+  // ---------------------------------------------------------------------------
+  // Collaborators: identity, viewport and following
+  // ---------------------------------------------------------------------------
+  const selfId = useSelf((me) => me.id);
+  const selfName = useSelf((me) => me.info.name);
+  const selfAvatar = useSelf((me) => me.info.avatar);
+  const [followingId, setFollowingId] = useState<number | null>(null);
+  const followed = others.find((user) => user.connectionId === followingId);
+  const followedViewport = followed?.presence.viewport;
+
+  // Name and color label this user's cursor for everyone else
   useEffect(() => {
-    const checkAndCreateBackup = async () => {
-      try {
-        // Check if backup exists
-        const hasBackup = await checkRoomBackupExists(roomId);
-        if (!hasBackup) {
-          // Create a backup after 20 days (20 * 24 * 60 * 60 * 1000 = 1728000000 ms)
-          setTimeout(async () => {
-            const backupState = {
-              images,
-              shapes,
-              lines,
-              createdAt: new Date().toISOString(),
-            };
-            await createRoomBackup(roomId, backupState);
-          }, 1728000000);
+    if (!selfId || selfName === null) return;
+    updateMyPresence({ name: selfName, color: getPresenceColor(selfId), avatar: selfAvatar ?? undefined });
+  }, [selfId, selfName, selfAvatar, updateMyPresence]);
+
+  useEffect(() => {
+    updateMyPresence({
+      viewport: {
+        x: (stageDimensions.width / 2 - viewport.x) / viewport.scale,
+        y: (stageDimensions.height / 2 - viewport.y) / viewport.scale,
+        scale: viewport.scale,
+      },
+    });
+  }, [viewport, stageDimensions, updateMyPresence]);
+
+  // Center on what the followed user sees, at their zoom
+  useEffect(() => {
+    if (!followedViewport) return;
+    updateViewport({
+      x: stageDimensions.width / 2 - followedViewport.x * followedViewport.scale,
+      y: stageDimensions.height / 2 - followedViewport.y * followedViewport.scale,
+      scale: followedViewport.scale,
+    });
+  }, [followedViewport, stageDimensions, updateViewport]);
+
+  useEffect(() => {
+    updateMyPresence({ selectedIds });
+  }, [selectedIds, updateMyPresence]);
+
+  useEffect(() => {
+    const typingId = editingTextId ?? editingLabelId;
+    updateMyPresence({ editingIds: typingId ? [typingId] : busyIds });
+  }, [busyIds, editingTextId, editingLabelId, updateMyPresence]);
+
+  // What collaborators have selected or are working on, outlined per element
+  // with one badge for the whole set
+  const remoteSelections = useMemo(() => {
+    const visibleIds = new Set(allElements.filter((item) => !item.hidden).map((item) => item.id));
+    const padding = REMOTE_BADGE_PADDING / viewport.scale;
+    return others.flatMap(({ connectionId, presence }) => {
+      const ids = Array.from(new Set([...presence.selectedIds, ...presence.editingIds]))
+        .filter((id) => visibleIds.has(id));
+      const bounds = getElementsBBox(ids, padding);
+      if (!presence.name || !bounds) return [];
+      return [{
+        connectionId,
+        name: presence.name,
+        color: presence.color,
+        isEditing: presence.editingIds.some((id) => visibleIds.has(id)),
+        bounds,
+        outlines: ids.map((id) => getElementsBBox([id], padding)).filter((item): item is Bounds => item !== null),
+      }];
+    });
+  }, [others, allElements, getElementsBBox, viewport.scale]);
+
+  // Stop when they leave, or when this user pans or zooms on their own
+  const isFollowedPresent = followed !== undefined;
+  useEffect(() => {
+    if (followingId !== null && !isFollowedPresent) setFollowingId(null);
+  }, [followingId, isFollowedPresent]);
+
+  useEffect(() => {
+    const container = stageRef.current?.container();
+    if (followingId === null || !container) return;
+    const stopFollowing = () => setFollowingId(null);
+    container.addEventListener("wheel", stopFollowing, { passive: true });
+    container.addEventListener("pointerdown", stopFollowing);
+    return () => {
+      container.removeEventListener("wheel", stopFollowing);
+      container.removeEventListener("pointerdown", stopFollowing);
+    };
+  }, [followingId]);
+
+  // ---------------------------------------------------------------------------
+  // Room backups
+  // ---------------------------------------------------------------------------
+  const backupContentRef = useRef({ images, shapes, lines, texts });
+  const lastBackupContentRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    backupContentRef.current = { images, shapes, lines, texts };
+  }, [images, shapes, lines, texts]);
+
+  // Snapshot the board if it changed since this client's last backup. The
+  // server also skips snapshots identical to the latest one, so several open
+  // clients don't fill the retention window with duplicates.
+  const backupRoom = useCallback(async (minInterval?: number) => {
+    const content = backupContentRef.current;
+    const serialized = JSON.stringify(content);
+    if (serialized === lastBackupContentRef.current) return;
+
+    try {
+      const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/backups`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, minInterval }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(error);
+      }
+      const { snapshot } = await response.json();
+      // A skipped backup is retried on the next change or interval
+      if (snapshot) lastBackupContentRef.current = serialized;
+    } catch (error) {
+      console.error('Error creating room backup:', error);
+    }
+  }, [roomId]);
+
+  // On-change backup once edits have settled
+  useEffect(() => {
+    if (isStorageLoading || isReadOnly) return;
+    const timeout = setTimeout(() => backupRoom(BACKUP_MIN_INTERVAL), BACKUP_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [images, shapes, lines, texts, isStorageLoading, isReadOnly, backupRoom]);
+
+  // Periodic backup, so long editing sessions that keep resetting the
+  // debounce above are still captured
+  useEffect(() => {
+    if (isStorageLoading || isReadOnly) return;
+    const interval = setInterval(() => backupRoom(BACKUP_MIN_INTERVAL), BACKUP_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isStorageLoading, isReadOnly, backupRoom]);
+
+  const handleLoadBackups = useCallback(async (): Promise<RoomBackupSnapshot[]> => {
+    const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/backups`);
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(error);
+    }
+    const { snapshots } = await response.json();
+    return snapshots;
+  }, [roomId]);
+
+  const handleCreateShareLink = useCallback(async (role: MemberRole, expiresIn: number | null) => {
+    const response = await fetch(`/api/boards/${encodeURIComponent(roomId)}/share-links`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role, expiresIn }),
+    });
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(error);
+    }
+    const { url } = await response.json();
+    return url as string;
+  }, [roomId]);
+
+  const handleRevokeShareLinks = useCallback(async () => {
+    const response = await fetch(`/api/boards/${encodeURIComponent(roomId)}/share-links`, { method: 'DELETE' });
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(error);
+    }
+  }, [roomId]);
+
+  const handleRestoreBackup = useCallback(async (snapshot: RoomBackupSnapshot) => {
+    const restoredAt = new Date(snapshot.createdAt).toLocaleString();
+    if (!window.confirm(`Restore the board to ${restoredAt}? Everyone in this room will see the restored board.`)) {
+      return;
+    }
+
+    try {
+      // Keep the current board as a snapshot so the restore can be undone
+      await backupRoom();
+      const response = await fetch(
+        `/api/rooms/${encodeURIComponent(roomId)}/backups/${snapshot.id}/restore`,
+        { method: 'POST' }
+      );
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(error);
+      }
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      alert(`Could not restore backup: ${(error as Error).message}`);
+    }
+  }, [roomId, backupRoom]);
+
+  // ---------------------------------------------------------------------------
+  // Element rendering: every kind is drawn from one list in stacking order
+  // ---------------------------------------------------------------------------
+  // Grouped elements move with their group unless the group is entered
+  const isPickedAsGroup = (element: { id: string; groupIds?: string[] }) =>
+    getSelectionGroupId(element, editingGroupId) !== null;
+
+  const renderImage = (img: ImageElement) => (
+    <DraggableImage
+      key={img.id}
+      id={img.id}
+      url={img.url}
+      x={img.x}
+      y={img.y}
+      width={img.width}
+      height={img.height}
+      rotation={img.rotation}
+      isSelected={selectedIds.length === 1 && selectedIds[0] === img.id && !img.locked}
+      activeTool={activeTool}
+      draggable={!isReadOnly && !img.locked && !isPickedAsGroup(img)}
+      onClick={(e) => {
+        e.evt.stopPropagation();
+        handleElementClick(img.id, e.evt.shiftKey);
+      }}
+      onDblClick={() => enterGroupAt(img.id)}
+      anchorStyleFunc={styleTransformerAnchor}
+      onDragMove={(e) => {
+        const snapped = snapDrag([img.id], e.target.x() - img.x, e.target.y() - img.y);
+        e.target.position({ x: img.x + snapped.dx, y: img.y + snapped.dy });
+      }}
+      onDragEnd={handleImageDragEnd}
+      onResize={handleImageResize}
+      anchorDragBoundFunc={snapAnchor}
+    />
+  );
+
+  const renderLine = (line: LineElement) => {
+    const isSelected = selectedIds.includes(line.id);
+    const handleClick = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+      e.evt.stopPropagation();
+      handleElementClick(line.id, e.evt.shiftKey);
+    };
+    // Pressure strokes are drawn as their filled, variable-width outline
+    const strokeProps = line.pressures
+      ? {
+          points: getStrokeOutline(line, line.width),
+          closed: true,
+          fill: isSelected ? "#0096FF" : line.color,
+          stroke: isSelected ? "#0096FF" : line.color,
+          strokeWidth: 1,
         }
-      } catch (error) {
-        console.error('Error handling room backup:', error);
+      : {
+          points: line.points,
+          stroke: isSelected ? "#0096FF" : line.color,
+          strokeWidth: line.width,
+          dash: line.dash,
+        };
+    return (
+      <Line
+        key={line.id}
+        id={line.id}
+        {...strokeProps}
+        opacity={line.opacity ?? 1}
+        tension={0.5}
+        lineCap="round"
+        perfectDrawEnabled={false}
+        hitStrokeWidth={Math.max(line.width + 20, 20)}
+        draggable={!isReadOnly && selectedIds.length <= 1 && !line.locked && !isPickedAsGroup(line)}
+        onClick={handleClick}
+        onTap={handleClick}
+        onDblClick={() => enterGroupAt(line.id)}
+        onDblTap={() => enterGroupAt(line.id)}
+        onDragStart={(e) => {
+          handleDragStart();
+          // Store initial position for reference
+          e.target.setAttr('lastX', e.target.x());
+          e.target.setAttr('lastY', e.target.y());
+        }}
+        onDragMove={(e) => {
+          const target = e.target;
+          const lastX = target.getAttr('lastX') || 0;
+          const lastY = target.getAttr('lastY') || 0;
+          const { dx, dy } = snapDrag([line.id], target.x() - lastX, target.y() - lastY);
+          const newX = lastX + dx;
+          const newY = lastY + dy;
+          target.position({ x: newX, y: newY });
+
+          const newPoints = [...line.points];
+          for (let i = 0; i < newPoints.length; i += 2) {
+            newPoints[i] += dx;
+            newPoints[i + 1] += dy;
+          }
+
+          const updatedLine = { ...line, points: newPoints };
+          updateLines(lines.map(l => l.id === line.id ? updatedLine : l));
+
+          // Update last position
+          target.setAttr('lastX', newX);
+          target.setAttr('lastY', newY);
+        }}
+        onDragEnd={(e) => {
+          // Reset position after drag
+          e.target.position({ x: 0, y: 0 });
+          e.target.setAttr('lastX', 0);
+          e.target.setAttr('lastY', 0);
+          handleDragEnd();
+        }}
+        shadowEnabled={isSelected}
+        shadowColor="#0096FF"
+        shadowBlur={10}
+        shadowOpacity={0.5}
+      />
+    );
+  };
+
+  // Connector labels sit on a white tag centered on the route
+  const renderConnectorLabel = (
+    shape: ShapeElement,
+    handlers: { onClick: (e: KonvaEventObject<MouseEvent | TouchEvent>) => void; onDblClick: () => void }
+  ) => {
+    const position = getConnectorLabelPosition(shape);
+    const size = measureTextBounds({ type: "text", text: shape.label ?? "", fontSize: CONNECTOR_LABEL_FONT_SIZE });
+    const padding = 4;
+    return (
+      <Label
+        key={`${shape.id}-label`}
+        x={position.x - size.width / 2 - padding}
+        y={position.y - size.height / 2 - padding}
+        onClick={handlers.onClick}
+        onTap={handlers.onClick}
+        onDblClick={handlers.onDblClick}
+        onDblTap={handlers.onDblClick}
+      >
+        <Tag fill="#FFFFFF" cornerRadius={4} />
+        <Text
+          text={shape.label}
+          fontSize={CONNECTOR_LABEL_FONT_SIZE}
+          fontFamily={TEXT_FONT_FAMILY}
+          lineHeight={TEXT_LINE_HEIGHT}
+          fill={shape.color}
+          padding={padding}
+        />
+      </Label>
+    );
+  };
+
+  const renderShape = (shape: ShapeElement) => {
+    const isSelected = selectedIds.includes(shape.id);
+    const origin = getShapeOrigin(shape);
+    // Point shapes are drawn in world coordinates, so offset the node by its
+    // center to rotate around it
+    const pivotProps = isPointShape(shape.type)
+      ? { x: origin.x, y: origin.y, offsetX: origin.x, offsetY: origin.y }
+      : {};
+    const handleClick = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+      e.evt.stopPropagation();
+      handleElementClick(shape.id, e.evt.shiftKey);
+    };
+    const handleDblClick = () => {
+      // Double-clicking a line or arrow edits its label
+      if (!isReadOnly && !enterGroupAt(shape.id) && isConnectorType(shape.type) && !shape.locked) {
+        setSelectedIds([shape.id]);
+        setEditingLabelId(shape.id);
       }
     };
+    const commonProps = {
+      id: shape.id,
+      rotation: shape.rotation || 0,
+      onClick: handleClick,
+      onTap: handleClick,
+      onDblClick: handleDblClick,
+      onDblTap: handleDblClick,
+      stroke: shape.color,
+      strokeWidth: shape.strokeWidth,
+      opacity: shape.opacity ?? 1,
+      dash: shape.dash,
+      draggable: !isReadOnly && selectedIds.length <= 1 && !shape.locked && !isPickedAsGroup(shape),
+      onDragMove: (e: KonvaEventObject<DragEvent>) => {
+        const { dx, dy } = snapDrag([shape.id], e.target.x() - origin.x, e.target.y() - origin.y);
+        e.target.position({ x: origin.x + dx, y: origin.y + dy });
+        // Dragging a connector on its own releases its ends
+        const updatedShape = translateShape(detachConnectorEnds(shape, []), dx, dy);
+        updateShapes(shapes.map(s => s.id === shape.id ? updatedShape : s));
+      },
+      onDragStart: handleDragStart,
+      onDragEnd: handleDragEnd,
+      onTransformEnd: (e: KonvaEventObject<Event>) => {
+        handleShapeTransformEnd(shape, e.target);
+      },
+      perfectDrawEnabled: false,
+    };
+
+    switch (shape.type) {
+      case "rectangle":
+        return (
+          <Fragment key={shape.id}>
+            <Rect
+              key={`${shape.id}-shape`}
+              {...commonProps}
+              x={shape.x}
+              y={shape.y}
+              width={shape.width}
+              height={shape.height}
+              fill={shape.fill ?? "transparent"}
+            />
+            {isSelected && (
+              <Rect
+                key={`${shape.id}-selection`}
+                x={shape.x}
+                y={shape.y}
+                offsetX={2}
+                offsetY={2}
+                rotation={shape.rotation || 0}
+                width={shape.width + 4}
+                height={shape.height + 4}
+                stroke="#0096FF"
+                strokeWidth={2}
+                dash={[5, 5]}
+                perfectDrawEnabled={false}
+              />
+            )}
+          </Fragment>
+        );
+      case "circle":
+        return (
+          <Fragment key={shape.id}>
+            <Circle
+              key={`${shape.id}-shape`}
+              {...commonProps}
+              x={shape.x}
+              y={shape.y}
+              radius={Math.abs(shape.width / 2)}
+              fill={shape.fill ?? "transparent"}
+            />
+            {isSelected && (
+              <Circle
+                key={`${shape.id}-selection`}
+                x={shape.x}
+                y={shape.y}
+                radius={Math.abs(shape.width / 2) + 2}
+                stroke="#0096FF"
+                strokeWidth={2}
+                dash={[5, 5]}
+                perfectDrawEnabled={false}
+              />
+            )}
+          </Fragment>
+        );
+      case "line":
+      case "arrow":
+      case "star":
+        return (
+          <Fragment key={shape.id}>
+            <Line
+              key={`${shape.id}-shape`}
+              {...commonProps}
+              {...pivotProps}
+              points={shape.points || []}
+              fill={shape.type === "star" ? shape.fill ?? "transparent" : undefined}
+              closed={shape.type === "star"}
+            />
+            {isSelected && (
+              <Line
+                key={`${shape.id}-selection`}
+                {...pivotProps}
+                rotation={shape.rotation || 0}
+                points={shape.points || []}
+                stroke="#0096FF"
+                strokeWidth={shape.strokeWidth + 4}
+                dash={[5, 5]}
+                perfectDrawEnabled={false}
+                closed={shape.type === "star"}
+              />
+            )}
+            {shape.label && editingLabelId !== shape.id && renderConnectorLabel(shape, commonProps)}
+          </Fragment>
+        );
+      case "triangle":
+        return (
+          <Fragment key={shape.id}>
+            <Line
+              key={`${shape.id}-shape`}
+              {...commonProps}
+              {...pivotProps}
+              points={shape.points || []}
+              closed={true}
+              fill={shape.fill ?? "transparent"}
+            />
+            {isSelected && (
+              <Line
+                key={`${shape.id}-selection`}
+                {...pivotProps}
+                rotation={shape.rotation || 0}
+                points={shape.points || []}
+                closed={true}
+                stroke="#0096FF"
+                strokeWidth={2}
+                dash={[5, 5]}
+                perfectDrawEnabled={false}
+              />
+            )}
+          </Fragment>
+        );
+      default:
+        return null;
+    }
+  };
 
-    checkAndCreateBackup();
-  }, [roomId, images, shapes, lines]);
+  const renderText = (text: TextElement) => (
+    <EditableText
+      key={text.id}
+      {...text}
+      isSelected={selectedIds.includes(text.id)}
+      isEditing={editingTextId === text.id}
+      activeTool={activeTool}
+      draggable={!isReadOnly && selectedIds.length <= 1 && !text.locked && !isPickedAsGroup(text)}
+      onClick={(e) => {
+        e.evt.stopPropagation();
+        handleElementClick(text.id, e.evt.shiftKey);
+      }}
+      onDblClick={(id) => {
+        // Grouped text is edited once its group has been entered
+        if (isReadOnly || enterGroupAt(id)) return;
+        setSelectedIds([id]);
+        setEditingTextId(id);
+      }}
+      onDragMove={(e) => {
+        const snapped = snapDrag([text.id], e.target.x() - text.x, e.target.y() - text.y);
+        e.target.position({ x: text.x + snapped.dx, y: text.y + snapped.dy });
+      }}
+      onDragEnd={handleTextDragEnd}
+    />
+  );
 
   // ---------------------------------------------------------------------------
   // Render
@@ -1352,6 +3579,7 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
       
       <Stage
         ref={stageRef}
+        style={{ touchAction: "none" }}
         width={stageDimensions.width}
         height={stageDimensions.height}
         draggable={
@@ -1364,11 +3592,18 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onClick={(e) => {
-          const clickedOnEmpty = e.target === e.target.getStage();
-          if (clickedOnEmpty && !isSelecting) {
-            setSelectedIds([]);
-          }
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setEraserPoint(null)}
+        onClick={handleStageClick}
+        onTap={handleStageClick}
+        onDragStart={(e) => {
+          // Element drags bubble up to here; the stage itself only pans
+          if (e.target === e.target.getStage()) return;
+          const id = e.target.id();
+          setBusyIds(id && !selectedIds.includes(id) ? [id] : selectedIds);
         }}
         onDragMove={(e) => {
           if (activeTool === "hand" || (!isSelecting && selectedIds.length === 0)) {
@@ -1379,6 +3614,7 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
           }
         }}
         onDragEnd={(e) => {
+          setBusyIds([]);
           if (activeTool === "hand" || (!isSelecting && selectedIds.length === 0)) {
             const stage = e.target.getStage();
             if (stage) {
@@ -1386,16 +3622,14 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
             }
           }
         }}
-        onTouchStart={(e) => {
-          if (e.evt.touches.length === 2) e.evt.preventDefault();
-        }}
-        onTouchMove={(e) => {
-          if (e.evt.touches.length === 2) e.evt.preventDefault();
-        }}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onTouchCancel={handleTouchEnd}
         onContextMenu={handleContextMenu}
       >
         {/* Grid Layer */}
-        <Layer>
+        <Layer name={EXPORT_HIDDEN_NAME} listening={false}>
           <Group>
             {(() => {
               const stageX = -viewport.x / viewport.scale;
@@ -1429,33 +3663,68 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
           </Group>
         </Layer>
         <Layer>
-          {images.map((img) => (
-            <DraggableImage
-              key={img.id}
-              id={img.id}
-              url={img.url}
-              x={img.x}
-              y={img.y}
-              width={img.width}
-              height={img.height}
-              isSelected={selectedIds.includes(img.id)}
-              activeTool={activeTool}
-              onClick={(e) => {
-                e.evt.stopPropagation();
-                if (e.evt.shiftKey) {
-                  setSelectedIds((prev) =>
-                    prev.includes(img.id)
-                      ? prev.filter((id) => id !== img.id)
-                      : [...prev, img.id]
-                  );
-                } else {
-                  setSelectedIds([img.id]);
-                }
-              }}
-              onDragEnd={handleImageDragEnd}
-              onResize={handleImageResize}
+          {orderedElements.filter(({ element }) => !element.hidden).map(({ kind, element }) => {
+            switch (kind) {
+              case "image":
+                return renderImage(element);
+              case "line":
+                return renderLine(element);
+              case "shape":
+                return renderShape(element);
+              case "text":
+                return renderText(element);
+            }
+          })}
+          {/* Badges for locked and hidden elements, e.g. after select-all */}
+          {selectedElements.filter((item) => item.locked || item.hidden).map((item) => {
+            const bounds = getElementsBBox([item.id]);
+            if (!bounds) return null;
+            return (
+              <Fragment key={`${item.id}-flags`}>
+                {item.hidden && (
+                  <Rect
+                    x={bounds.x}
+                    y={bounds.y}
+                    width={bounds.width}
+                    height={bounds.height}
+                    stroke="#9CA3AF"
+                    strokeWidth={1 / viewport.scale}
+                    dash={[4 / viewport.scale, 4 / viewport.scale]}
+                    listening={false}
+                    perfectDrawEnabled={false}
+                  />
+                )}
+                <Label
+                  x={bounds.x}
+                  y={bounds.y}
+                  scaleX={1 / viewport.scale}
+                  scaleY={1 / viewport.scale}
+                  listening={false}
+                >
+                  <Tag fill={item.hidden ? "#6B7280" : "#F59E0B"} cornerRadius={3} />
+                  <Text
+                    text={[item.locked && "Locked", item.hidden && "Hidden"].filter(Boolean).join(" · ")}
+                    fontSize={11}
+                    padding={3}
+                    fill="#fff"
+                  />
+                </Label>
+              </Fragment>
+            );
+          })}
+          {editingGroupBBox && (
+            <Rect
+              x={editingGroupBBox.x}
+              y={editingGroupBBox.y}
+              width={editingGroupBBox.width}
+              height={editingGroupBBox.height}
+              stroke="#9CA3AF"
+              strokeWidth={1}
+              dash={[4, 4]}
+              listening={false}
+              perfectDrawEnabled={false}
             />
-          ))}
+          )}
           {selectionRect && (
             <Rect
               x={selectionRect.x}
@@ -1470,6 +3739,7 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
           {/* Group selection rectangle */}
           {selectedIds.length > 1 && groupBBox && (
             <Rect
+              ref={groupRectRef}
               x={groupBBox.x}
               y={groupBBox.y}
               width={groupBBox.width}
@@ -1479,8 +3749,12 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
               dash={[5, 5]}
               fill="transparent"
               draggable
+              onDragStart={handleDragStart}
               onDragMove={handleGroupDragMove}
-              onDragEnd={handleGroupDragEnd}
+              onDragEnd={handleDragEnd}
+              onTransformEnd={handleGroupTransformEnd}
+              onDblClick={handleGroupDblClick}
+              onDblTap={handleGroupDblClick}
               onMouseEnter={(e) => {
                 const stage = e.target.getStage();
                 if (stage) stage.container().style.cursor = 'move';
@@ -1491,274 +3765,184 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
               }}
             />
           )}
-        </Layer>
-
-        <Layer>
-          {lines.map((line) => {
-            const isSelected = selectedIds.includes(line.id);
-            return (
-              <Line
-                key={line.id}
-                id={line.id}
-                points={line.points}
-                stroke={isSelected ? "#0096FF" : line.color}
-                strokeWidth={line.width}
-                tension={0.5}
-                lineCap="round"
-                perfectDrawEnabled={false}
-                hitStrokeWidth={Math.max(line.width + 20, 20)}
-                draggable={selectedIds.length <= 1}
-                onClick={(e) => {
-                  e.evt.stopPropagation();
-                  if (e.evt.shiftKey) {
-                    setSelectedIds((prev) =>
-                      prev.includes(line.id)
-                        ? prev.filter((id) => id !== line.id)
-                        : [...prev, line.id]
-                    );
-                  } else {
-                    setSelectedIds([line.id]);
-                  }
-                }}
-                onDragStart={(e) => {
-                  // Store initial position for reference
-                  e.target.setAttr('lastX', e.target.x());
-                  e.target.setAttr('lastY', e.target.y());
-                }}
-                onDragMove={(e) => {
-                  const target = e.target;
-                  const lastX = target.getAttr('lastX') || 0;
-                  const lastY = target.getAttr('lastY') || 0;
-                  const newX = target.x();
-                  const newY = target.y();
-                  const dx = newX - lastX;
-                  const dy = newY - lastY;
-
-                  const newPoints = [...line.points];
-                  for (let i = 0; i < newPoints.length; i += 2) {
-                    newPoints[i] += dx;
-                    newPoints[i + 1] += dy;
-                  }
-
-                  const updatedLine = { ...line, points: newPoints };
-                  updateLines(lines.map(l => l.id === line.id ? updatedLine : l));
-
-                  // Update last position
-                  target.setAttr('lastX', newX);
-                  target.setAttr('lastY', newY);
-                }}
-                onDragEnd={(e) => {
-                  // Reset position after drag
-                  e.target.position({ x: 0, y: 0 });
-                  e.target.setAttr('lastX', 0);
-                  e.target.setAttr('lastY', 0);
-                  addHistoryEntry(stateRef.current);
-                }}
-                shadowEnabled={isSelected}
-                shadowColor="#0096FF"
-                shadowBlur={10}
-                shadowOpacity={0.5}
-              />
-            );
-          })}
-          {shapes.map((shape) => {
-            const isSelected = selectedIds.includes(shape.id);
-            const commonProps = {
-              onClick: (e: KonvaEventObject<MouseEvent>) => {
-                e.evt.stopPropagation();
-                if (e.evt.shiftKey) {
-                  setSelectedIds((prev) =>
-                    prev.includes(shape.id)
-                      ? prev.filter((id) => id !== shape.id)
-                      : [...prev, shape.id]
-                  );
-                } else {
-                  setSelectedIds([shape.id]);
+          {selectedIds.length > 1 && groupBBox && (
+            <Transformer
+              ref={groupTransformerRef}
+              boundBoxFunc={(oldBox, newBox) => {
+                const minSize = 5;
+                if (newBox.width < minSize || newBox.height < minSize) {
+                  return oldBox;
                 }
-              },
-              stroke: shape.color,
-              strokeWidth: shape.strokeWidth,
-              draggable: selectedIds.length <= 1,
-              onDragMove: (e: KonvaEventObject<DragEvent>) => {
-                const updatedShape = { ...shape, x: e.target.x(), y: e.target.y() };
-                updateShapes(shapes.map(s => s.id === shape.id ? updatedShape : s));
-              },
-              onDragEnd: () => {
-                addHistoryEntry(stateRef.current);
-              },
-              perfectDrawEnabled: false,
-            };
-
-            switch (shape.type) {
-              case "rectangle":
-                return (
-                  <Fragment key={shape.id}>
-                    <Rect
-                      key={`${shape.id}-shape`}
-                      {...commonProps}
-                      x={shape.x}
-                      y={shape.y}
-                      width={shape.width}
-                      height={shape.height}
-                      fill="transparent"
-                    />
-                    {isSelected && (
-                      <Rect
-                        key={`${shape.id}-selection`}
-                        x={shape.x - 2}
-                        y={shape.y - 2}
-                        width={shape.width + 4}
-                        height={shape.height + 4}
-                        stroke="#0096FF"
-                        strokeWidth={2}
-                        dash={[5, 5]}
-                        perfectDrawEnabled={false}
-                      />
-                    )}
-                  </Fragment>
-                );
-              case "circle":
-                return (
-                  <Fragment key={shape.id}>
-                    <Circle
-                      key={`${shape.id}-shape`}
-                      {...commonProps}
-                      x={shape.x}
-                      y={shape.y}
-                      radius={Math.abs(shape.width / 2)}
-                      fill="transparent"
-                    />
-                    {isSelected && (
-                      <Circle
-                        key={`${shape.id}-selection`}
-                        x={shape.x}
-                        y={shape.y}
-                        radius={Math.abs(shape.width / 2) + 2}
-                        stroke="#0096FF"
-                        strokeWidth={2}
-                        dash={[5, 5]}
-                        perfectDrawEnabled={false}
-                      />
-                    )}
-                  </Fragment>
-                );
-              case "line":
-              case "arrow":
-              case "star":
-                return (
-                  <Fragment key={shape.id}>
-                    <Line
-                      key={`${shape.id}-shape`}
-                      {...commonProps}
-                      points={shape.points || []}
-                      fill={shape.type === "star" ? "transparent" : undefined}
-                      closed={shape.type === "star"}
-                      draggable={selectedIds.length <= 1}
-                      onClick={(e) => {
-                        e.evt.stopPropagation();
-                        if (e.evt.shiftKey) {
-                          setSelectedIds((prev) =>
-                            prev.includes(shape.id)
-                              ? prev.filter((id) => id !== shape.id)
-                              : [...prev, shape.id]
-                          );
-                        } else {
-                          setSelectedIds([shape.id]);
-                        }
-                      }}
-                      onDragMove={(e) => {
-                        const updatedShape = { ...shape, x: e.target.x(), y: e.target.y() };
-                        updateShapes(shapes.map(s => s.id === shape.id ? updatedShape : s));
-                      }}
-                      onDragEnd={() => {
-                        addHistoryEntry(stateRef.current);
-                      }}
-                    />
-                    {isSelected && (
-                      <Line
-                        key={`${shape.id}-selection`}
-                        points={shape.points || []}
-                        stroke="#0096FF"
-                        strokeWidth={shape.strokeWidth + 4}
-                        dash={[5, 5]}
-                        perfectDrawEnabled={false}
-                        closed={shape.type === "star"}
-                      />
-                    )}
-                  </Fragment>
-                );
-              case "triangle":
-                return (
-                  <Fragment key={shape.id}>
-                    <Line
-                      key={`${shape.id}-shape`}
-                      {...commonProps}
-                      points={shape.points || []}
-                      closed={true}
-                      fill="transparent"
-                    />
-                    {isSelected && (
-                      <Line
-                        key={`${shape.id}-selection`}
-                        points={shape.points || []}
-                        closed={true}
-                        stroke="#0096FF"
-                        strokeWidth={2}
-                        dash={[5, 5]}
-                        perfectDrawEnabled={false}
-                      />
-                    )}
-                  </Fragment>
-                );
-              default:
-                return null;
-            }
-          })}
+                return newBox;
+              }}
+              rotateEnabled={false}
+              flipEnabled={false}
+              borderEnabled={false}
+              onTransformStart={() => setBusyIds(selectedIds)}
+              onTransformEnd={() => setBusyIds([])}
+              anchorDragBoundFunc={snapAnchor}
+              anchorStyleFunc={styleTransformerAnchor}
+              anchorSize={10}
+              anchorCornerRadius={5}
+              anchorStroke="#0096FF"
+              anchorFill="#fff"
+              anchorStrokeWidth={2}
+            />
+          )}
+          {selectedShapeId && (
+            <Transformer
+              ref={shapeTransformerRef}
+              boundBoxFunc={(oldBox, newBox) => {
+                // Limit resize
+                const minSize = 5;
+                if (Math.abs(newBox.width) < minSize && Math.abs(newBox.height) < minSize) {
+                  return oldBox;
+                }
+                return newBox;
+              }}
+              enabledAnchors={keepSelectedShapeRatio
+                ? ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+                : [
+                    'top-left', 'top-center', 'top-right',
+                    'middle-left', 'middle-right',
+                    'bottom-left', 'bottom-center', 'bottom-right'
+                  ]}
+              keepRatio={keepSelectedShapeRatio}
+              anchorDragBoundFunc={snapAnchor}
+              onTransformStart={() => setBusyIds(selectedIds)}
+              onTransformEnd={() => setBusyIds([])}
+              rotateEnabled={true}
+              rotationSnaps={[0, 45, 90, 135, 180, 225, 270, 315]}
+              rotationSnapTolerance={5}
+              padding={5}
+              anchorStyleFunc={styleTransformerAnchor}
+              anchorSize={10}
+              anchorCornerRadius={5}
+              borderStroke="#0096FF"
+              anchorStroke="#0096FF"
+              anchorFill="#fff"
+              borderStrokeWidth={2}
+              anchorStrokeWidth={2}
+            />
+          )}
         </Layer>
-        <Layer>
-          {/* Render other users' cursors */}
-          {othersWithTimestamp.map(({ connectionId, presence }) => {
-            if (presence?.cursor == null) return null;
-            
-            if (!cursorImg) {
+        <Layer name={EXPORT_HIDDEN_NAME} listening={false}>
+          {remoteSelections.map(({ connectionId, name, color, isEditing, bounds, outlines }) => (
+            <Fragment key={`remote-${connectionId}`}>
+              {outlines.map((outline, index) => (
+                <Rect
+                  key={index}
+                  {...outline}
+                  stroke={color}
+                  strokeWidth={(isEditing ? 2 : 1.5) / viewport.scale}
+                  dash={isEditing ? undefined : [6 / viewport.scale, 4 / viewport.scale]}
+                  perfectDrawEnabled={false}
+                />
+              ))}
+              <Label
+                x={bounds.x}
+                y={bounds.y}
+                offsetY={REMOTE_BADGE_FONT_SIZE + REMOTE_BADGE_PADDING * 2 + 2}
+                scaleX={1 / viewport.scale}
+                scaleY={1 / viewport.scale}
+              >
+                <Tag fill={color} cornerRadius={3} />
+                <Text
+                  text={isEditing ? `${name} is editing` : name}
+                  fontSize={REMOTE_BADGE_FONT_SIZE}
+                  padding={REMOTE_BADGE_PADDING}
+                  fill="#fff"
+                />
+              </Label>
+            </Fragment>
+          ))}
+          {activeTool === "eraser" && eraserPoint && (
+            <Circle
+              x={eraserPoint.x}
+              y={eraserPoint.y}
+              radius={ERASER_RADIUS / viewport.scale}
+              stroke="#6B7280"
+              strokeWidth={1 / viewport.scale}
+              fill="rgba(255, 255, 255, 0.5)"
+              perfectDrawEnabled={false}
+            />
+          )}
+          {isConnectorType(activeTool as ShapeType) && anchorHint && connectorTargets.has(anchorHint.id) &&
+            CONNECTOR_ANCHORS.map((anchor) => {
+              const point = getAnchorPoint(connectorTargets.get(anchorHint.id)!, anchor);
+              const isActive = anchor === anchorHint.anchor;
               return (
                 <Circle
-                  key={`cursor-${connectionId}`}
-                  x={presence.cursor.x}
-                  y={presence.cursor.y}
-                  radius={5}
-                  fill="blue"
+                  key={`anchor-${anchor}`}
+                  x={point.x}
+                  y={point.y}
+                  radius={(isActive ? 6 : 4) / viewport.scale}
+                  fill={isActive ? "#0096FF" : "#FFFFFF"}
+                  stroke="#0096FF"
+                  strokeWidth={1.5 / viewport.scale}
+                  perfectDrawEnabled={false}
                 />
               );
-            }
-
-            return (
-              <KonvaImage
-                key={`cursor-${connectionId}`}
-                image={cursorImg}
-                x={presence.cursor.x - 10}
-                y={presence.cursor.y - 10}
-                width={50}
-                height={50}
+            })}
+          {snapGuides.map((guide, index) => (
+            <Line
+              key={`guide-${index}`}
+              points={guide.orientation === "vertical"
+                ? [guide.position, guide.start, guide.position, guide.end]
+                : [guide.start, guide.position, guide.end, guide.position]}
+              stroke={GUIDE_COLOR}
+              strokeWidth={1 / viewport.scale}
+              perfectDrawEnabled={false}
+            />
+          ))}
+          {distanceBadges.map((badge, index) => (
+            <Fragment key={`distance-${index}`}>
+              <Line
+                points={[badge.x1, badge.y1, badge.x2, badge.y2]}
+                stroke={GUIDE_COLOR}
+                strokeWidth={1 / viewport.scale}
+                dash={[4 / viewport.scale, 3 / viewport.scale]}
+                perfectDrawEnabled={false}
               />
-            );
-          })}
+              <Label
+                x={(badge.x1 + badge.x2) / 2}
+                y={(badge.y1 + badge.y2) / 2}
+                scaleX={1 / viewport.scale}
+                scaleY={1 / viewport.scale}
+              >
+                <Tag fill={GUIDE_COLOR} cornerRadius={3} />
+                <Text text={`${Math.round(badge.distance)}`} fontSize={11} padding={3} fill="#fff" />
+              </Label>
+            </Fragment>
+          ))}
         </Layer>
       </Stage>
 
+      <CollaboratorCursors collaborators={othersWithTimestamp} viewport={viewport} />
+
+      {followed && (
+        <div
+          className="absolute inset-0 border-4 pointer-events-none"
+          style={{ borderColor: followed.presence.color }}
+        >
+          <button
+            onClick={() => setFollowingId(null)}
+            className="absolute bottom-5 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-lg shadow-md text-sm text-white pointer-events-auto hover:opacity-90"
+            style={{ backgroundColor: followed.presence.color }}
+          >
+            Following {followed.presence.name} · Stop
+          </button>
+        </div>
+      )}
+
       <CanvasControlsComponent
-        onZoomIn={() => {
-          const newScale = Math.min(viewport.scale * (1 + ZOOM_SPEED), MAX_SCALE);
-          if (newScale !== viewport.scale) {
-            updateViewport({ ...viewport, scale: newScale });
-          }
-        }}
-        onZoomOut={() => {
-          const newScale = Math.max(viewport.scale * (1 - ZOOM_SPEED), MIN_SCALE);
-          if (newScale !== viewport.scale) {
-            updateViewport({ ...viewport, scale: newScale });
-          }
-        }}
+        onZoomIn={() => zoomBy(1 + ZOOM_SPEED)}
+        onZoomOut={() => zoomBy(1 - ZOOM_SPEED)}
+        onShowShortcuts={() => setShowShortcuts(true)}
+        isLayersOpen={showLayers}
+        onToggleLayers={isReadOnly ? undefined : () => setShowLayers((prev) => !prev)}
+        isSnapToGridOn={snapToGrid}
+        onToggleSnapToGrid={isReadOnly ? undefined : () => setSnapToGrid((prev) => !prev)}
         onPan={(dx, dy) => {
           updateViewport({
             ...viewport,
@@ -1768,16 +3952,134 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
         }}
       />
 
-      <Toolbar
-        activeTool={activeTool}
-        setActiveTool={setActiveTool}
-        strokeColor={strokeColor}
-        setStrokeColor={setStrokeColor}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
-        canUndo={canUndo}
-        canRedo={canRedo}
-      />
+      <div className="absolute top-5 right-5 flex items-start gap-2">
+        <PresenceAvatars
+          self={selfId && selfName !== null ? { name: selfName, color: getPresenceColor(selfId), avatar: selfAvatar ?? undefined } : null}
+          collaborators={others}
+          followingId={followingId}
+          onFollow={setFollowingId}
+        />
+        {shareRoles.length > 0 && (
+          <ShareMenu
+            roles={shareRoles}
+            canRevoke={myRole === "owner"}
+            onCreateLink={handleCreateShareLink}
+            onRevokeLinks={handleRevokeShareLinks}
+          />
+        )}
+        <ExportMenu
+          hasSelection={selectedIds.length > 0}
+          canEdit={!isReadOnly}
+          onExport={handleExport}
+          onBoardExport={handleBoardExport}
+          onBoardImport={handleBoardImport}
+          onLoadBackups={handleLoadBackups}
+          onRestoreBackup={handleRestoreBackup}
+        />
+      </div>
+
+      <div className="absolute top-5 left-5 flex items-start gap-3">
+        <Link
+          href="/"
+          title="All boards"
+          className="bg-white p-2 rounded-lg shadow-md hover:bg-gray-100"
+        >
+          <LayoutDashboard size={20} />
+        </Link>
+        {showLayers && !isReadOnly && (
+          <LayersPanel
+            elements={orderedElements}
+            selectedIds={selectedIds}
+            imageSizes={imageDimensions}
+            onSelect={handleLayerSelect}
+            onRename={renameElement}
+            onMove={handleLayerMove}
+            onToggleFlag={handleLayerToggleFlag}
+            onClose={() => setShowLayers(false)}
+          />
+        )}
+        {showPropertiesPanel && (
+          <PropertiesPanel
+            style={panelStyle}
+            showFill={showFillProperty}
+            onChange={handleStyleChange}
+          />
+        )}
+        {alignItemGroups.size >= 2 && (
+          <AlignPanel
+            itemCount={alignItemGroups.size}
+            onAlign={handleAlign}
+            onDistribute={handleDistribute}
+            onTidyUp={handleTidyUp}
+          />
+        )}
+      </div>
+
+      {isReadOnly ? (
+        <div className="absolute top-5 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-white px-3 py-2 rounded-lg shadow-md text-sm text-gray-600">
+          <Eye size={16} />
+          View only
+        </div>
+      ) : (
+        <Toolbar
+          activeTool={activeTool}
+          setActiveTool={setActiveTool}
+          strokeColor={strokeColor}
+          setStrokeColor={handleColorChange}
+          fontSize={fontSize}
+          setFontSize={handleFontSizeChange}
+          showTextOptions={hasSelectedText}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+        />
+      )}
+
+      {(() => {
+        const editingText = texts.find((text) => text.id === editingTextId);
+        if (!editingText) return null;
+        return (
+          <TextEditor
+            key={editingText.id}
+            type={editingText.type}
+            x={editingText.x}
+            y={editingText.y}
+            width={editingText.width}
+            height={editingText.height}
+            text={editingText.text}
+            fontSize={editingText.fontSize}
+            color={editingText.color}
+            viewport={viewport}
+            onChange={(value) => handleTextChange(editingText.id, value)}
+            onClose={handleTextEditEnd}
+          />
+        );
+      })()}
+
+      {(() => {
+        const editingConnector = shapes.find((shape) => shape.id === editingLabelId);
+        if (!editingConnector) return null;
+        const label = editingConnector.label ?? "";
+        const position = getConnectorLabelPosition(editingConnector);
+        const size = measureTextBounds({ type: "text", text: label, fontSize: CONNECTOR_LABEL_FONT_SIZE });
+        return (
+          <TextEditor
+            key={editingConnector.id}
+            type="text"
+            x={position.x - size.width / 2}
+            y={position.y - size.height / 2}
+            width={size.width}
+            height={size.height}
+            text={label}
+            fontSize={CONNECTOR_LABEL_FONT_SIZE}
+            color={editingConnector.color}
+            viewport={viewport}
+            onChange={(value) => handleLabelChange(editingConnector.id, value)}
+            onClose={handleLabelEditEnd}
+          />
+        );
+      })()}
 
       {contextMenu.show && (
         <div
@@ -1812,6 +4114,120 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
           >
             Paste
           </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDuplicate();
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleGroup();
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            Group
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleUngroup();
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            Ungroup
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleToggleLocked();
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            {isSelectionLocked ? "Unlock" : "Lock"}
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleToggleHidden();
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            {isSelectionHidden ? "Show" : "Hide"}
+          </button>
+          {selectedConnectors.length > 0 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleToggleRouting();
+                setContextMenu({ show: false, x: 0, y: 0 });
+              }}
+              className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+            >
+              {isSelectionElbow ? "Straight route" : "Elbow route"}
+            </button>
+          )}
+          {selectedConnectors.length === 1 && !selectedConnectors[0].locked && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingLabelId(selectedConnectors[0].id);
+                setContextMenu({ show: false, x: 0, y: 0 });
+              }}
+              className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+            >
+              {selectedConnectors[0].label ? "Edit label" : "Add label"}
+            </button>
+          )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleArrange("forward");
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            Bring forward
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleArrange("backward");
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            Send backward
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleArrange("front");
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            Bring to front
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleArrange("back");
+              setContextMenu({ show: false, x: 0, y: 0 });
+            }}
+            className="block w-full px-4 py-2 text-left hover:bg-gray-100"
+          >
+            Send to back
+          </button>
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -1824,6 +4240,10 @@ const Canva: React.FC<CanvasProps> = ({ roomId }) => {
           </button>
         </div>
       )}
+
+      {showShortcuts && (
+        <ShortcutsOverlay onClose={() => setShowShortcuts(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,80 @@
+import React from 'react';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  LayoutGrid,
+  LucideIcon,
+} from 'lucide-react';
+import { AlignAction, DistributeAxis } from '@/app/utils/align';
+
+interface AlignPanelProps {
+  // Number of things that move independently; groups count once
+  itemCount: number;
+  onAlign: (action: AlignAction) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onTidyUp: () => void;
+}
+
+const ALIGN_BUTTONS: { action: AlignAction; label: string; icon: LucideIcon }[] = [
+  { action: 'left', label: 'Align left', icon: AlignStartVertical },
+  { action: 'center', label: 'Align center', icon: AlignCenterVertical },
+  { action: 'right', label: 'Align right', icon: AlignEndVertical },
+  { action: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { action: 'middle', label: 'Align middle', icon: AlignCenterHorizontal },
+  { action: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
+
+const AlignPanel: React.FC<AlignPanelProps> = ({
+  itemCount,
+  onAlign,
+  onDistribute,
+  onTidyUp,
+}) => {
+  const canDistribute = itemCount >= 3;
+  const buttonClass = 'p-1 rounded hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div
+      className="flex flex-col gap-2 bg-white p-3 rounded-lg shadow-md text-sm"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <span className="text-gray-500">Align</span>
+      <div className="flex gap-1">
+        {ALIGN_BUTTONS.map(({ action, label, icon: Icon }) => (
+          <button key={action} onClick={() => onAlign(action)} title={label} className={buttonClass}>
+            <Icon size={16} />
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <button
+          onClick={() => onDistribute('horizontal')}
+          disabled={!canDistribute}
+          title="Distribute horizontally"
+          className={buttonClass}
+        >
+          <AlignHorizontalDistributeCenter size={16} />
+        </button>
+        <button
+          onClick={() => onDistribute('vertical')}
+          disabled={!canDistribute}
+          title="Distribute vertically"
+          className={buttonClass}
+        >
+          <AlignVerticalDistributeCenter size={16} />
+        </button>
+        <button onClick={onTidyUp} title="Tidy up into grid" className={buttonClass}>
+          <LayoutGrid size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AlignPanel;
@@ -1,15 +1,27 @@
 import React from 'react';
+import { Grid3x3, Keyboard, Layers } from 'lucide-react';
 
 interface CanvasControlsProps {
   onZoomIn: () => void;
   onZoomOut: () => void;
   onPan: (dx: number, dy: number) => void;
+  onShowShortcuts: () => void;
+  isLayersOpen: boolean;
+  // Editing aids; left out for viewers
+  onToggleLayers?: () => void;
+  isSnapToGridOn: boolean;
+  onToggleSnapToGrid?: () => void;
 }
 
 const CanvasControls: React.FC<CanvasControlsProps> = ({
   onZoomIn,
   onZoomOut,
   onPan,
+  onShowShortcuts,
+  isLayersOpen,
+  onToggleLayers,
+  isSnapToGridOn,
+  onToggleSnapToGrid,
 }) => {
   const PAN_AMOUNT = 50;
 
@@ -30,6 +42,31 @@ const CanvasControls: React.FC<CanvasControlsProps> = ({
         >
           -
         </button>
+        <button
+          onClick={onShowShortcuts}
+          title="Keyboard shortcuts (?)"
+          className="p-1 px-2 hover:bg-gray-100 rounded cursor-pointer"
+        >
+          <Keyboard size={16} />
+        </button>
+        {onToggleLayers && (
+          <button
+            onClick={onToggleLayers}
+            title="Layers"
+            className={`p-1 px-2 hover:bg-gray-100 rounded cursor-pointer ${isLayersOpen ? 'bg-gray-100 text-[#2100FF]' : ''}`}
+          >
+            <Layers size={16} />
+          </button>
+        )}
+        {onToggleSnapToGrid && (
+          <button
+            onClick={onToggleSnapToGrid}
+            title="Snap to grid"
+            className={`p-1 px-2 hover:bg-gray-100 rounded cursor-pointer ${isSnapToGridOn ? 'bg-gray-100 text-[#2100FF]' : ''}`}
+          >
+            <Grid3x3 size={16} />
+          </button>
+        )}
       </div>
       <div className="grid grid-cols-3 gap-1">
         <button
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { Presence } from '@/app/liveblocks.config';
+
+export interface Collaborator {
+  connectionId: number;
+  presence: Presence;
+}
+
+interface CollaboratorCursorsProps {
+  collaborators: readonly Collaborator[];
+  viewport: { x: number; y: number; scale: number };
+}
+
+// Other users' cursors, drawn in screen space over the stage so they keep
+// their size at any zoom
+const CollaboratorCursors: React.FC<CollaboratorCursorsProps> = ({ collaborators, viewport }) => (
+  <div className="absolute inset-0 overflow-hidden pointer-events-none">
+    {collaborators.map(({ connectionId, presence }) => {
+      if (!presence.cursor) return null;
+      const color = presence.color || '#2100FF';
+      return (
+        <div
+          key={connectionId}
+          className="absolute top-0 left-0 transition-transform duration-75 ease-linear"
+          style={{
+            transform: `translate(${presence.cursor.x * viewport.scale + viewport.x}px, ${presence.cursor.y * viewport.scale + viewport.y}px)`,
+          }}
+        >
+          <svg width="18" height="18" viewBox="0 0 18 18" className="drop-shadow">
+            <path d="M1 1 L1 15 L5 11 L8 17 L10.5 16 L7.5 10 L13 10 Z" fill={color} stroke="white" strokeWidth="1.2" />
+          </svg>
+          {presence.name && (
+            <span
+              className="absolute left-4 top-4 px-1.5 py-0.5 rounded text-xs text-white whitespace-nowrap"
+              style={{ backgroundColor: color }}
+            >
+              {presence.name}
+            </span>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default CollaboratorCursors;
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Image as KonvaImage, Transformer, Group } from 'react-konva';
+import { Image as KonvaImage, Transformer, Group, Rect, Text } from 'react-konva';
 import { KonvaEventObject } from 'konva/lib/Node';
 import useImage from 'use-image';
 import type Konva from 'konva';
+import type { Vector2d } from 'konva/lib/types';
 
 export interface DraggableImageProps {
   id: string;
@@ -11,13 +12,25 @@ export interface DraggableImageProps {
   y: number;
   width?: number;
   height?: number;
+  rotation?: number;
   isSelected: boolean;
   activeTool: string;
-  onClick: (e: KonvaEventObject<MouseEvent>) => void;
+  // Grouped images move with their group instead of on their own
+  draggable?: boolean;
+  onClick: (e: KonvaEventObject<MouseEvent | TouchEvent>) => void;
+  onDblClick?: () => void;
+  onDragMove?: (e: KonvaEventObject<DragEvent>) => void;
   onDragEnd: (id: string, newX: number, newY: number) => void;
-  onResize: (id: string, width: number, height: number, x: number, y: number) => void;
+  onResize: (id: string, width: number, height: number, x: number, y: number, rotation: number) => void;
+  // Lets the canvas snap resize handles
+  anchorDragBoundFunc?: (oldPos: Vector2d, newPos: Vector2d) => Vector2d;
+  // Lets the canvas enlarge handle hit areas on touch screens
+  anchorStyleFunc?: (anchor: Konva.Rect) => void;
 }
 
+// Size of the box shown while an image is still uploading
+const PLACEHOLDER_SIZE = 200;
+
 const DraggableImage: React.FC<DraggableImageProps> = ({
   id,
   url,
@@ -25,11 +38,17 @@ const DraggableImage: React.FC<DraggableImageProps> = ({
   y,
   width: initialWidth,
   height: initialHeight,
+  rotation = 0,
   isSelected,
   activeTool,
+  draggable = true,
   onClick,
+  onDblClick,
+  onDragMove,
   onDragEnd,
   onResize,
+  anchorDragBoundFunc,
+  anchorStyleFunc,
 }) => {
   const [image] = useImage(url);
   const imageRef = React.useRef<Konva.Image>(null);
@@ -79,13 +98,12 @@ const DraggableImage: React.FC<DraggableImageProps> = ({
       height: newHeight,
     });
 
-    // Call onResize with the new dimensions and position
-    onResize(id, newWidth, newHeight, node.x(), node.y());
+    // Call onResize with the new dimensions, position and rotation
+    onResize(id, newWidth, newHeight, node.x(), node.y(), node.rotation());
   };
 
-  const handleDragStart = (e: KonvaEventObject<DragEvent>) => {
+  const handleDragStart = () => {
     setIsDragging(true);
-    e.target.moveToTop();
   };
 
   const handleDragEnd = (e: KonvaEventObject<DragEvent>) => {
@@ -93,7 +111,7 @@ const DraggableImage: React.FC<DraggableImageProps> = ({
     onDragEnd(id, e.target.x(), e.target.y());
   };
 
-  const handleClick = (e: KonvaEventObject<MouseEvent>) => {
+  const handleClick = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
     // Only trigger click if we weren't dragging
     if (!isDragging) {
       onClick(e);
@@ -101,6 +119,32 @@ const DraggableImage: React.FC<DraggableImageProps> = ({
     setIsDragging(false);
   };
 
+  // Uploads in progress are stored with an empty url
+  if (!url) {
+    return (
+      <Group id={id} x={x} y={y} rotation={rotation} listening={false}>
+        <Rect
+          width={PLACEHOLDER_SIZE}
+          height={PLACEHOLDER_SIZE}
+          fill="#F3F4F6"
+          stroke="#D1D5DB"
+          dash={[6, 4]}
+          cornerRadius={8}
+          perfectDrawEnabled={false}
+        />
+        <Text
+          width={PLACEHOLDER_SIZE}
+          height={PLACEHOLDER_SIZE}
+          text="Uploading…"
+          align="center"
+          verticalAlign="middle"
+          fill="#9CA3AF"
+          fontSize={16}
+        />
+      </Group>
+    );
+  }
+
   return (
     <>
       <Group>
@@ -112,9 +156,14 @@ const DraggableImage: React.FC<DraggableImageProps> = ({
           y={y}
           width={dimensions.width}
           height={dimensions.height}
-          draggable={activeTool === "select"}
+          rotation={rotation}
+          draggable={draggable && activeTool === "select"}
           onClick={handleClick}
+          onTap={handleClick}
+          onDblClick={onDblClick}
+          onDblTap={onDblClick}
           onDragStart={handleDragStart}
+          onDragMove={onDragMove}
           onDragEnd={handleDragEnd}
           onTransformEnd={handleTransformEnd}
           perfectDrawEnabled={false}
@@ -145,7 +194,9 @@ const DraggableImage: React.FC<DraggableImageProps> = ({
             'middle-left', 'middle-right',
             'bottom-left', 'bottom-center', 'bottom-right'
           ]}
-          rotateEnabled={false}
+          rotateEnabled={true}
+          rotationSnaps={[0, 45, 90, 135, 180, 225, 270, 315]}
+          rotationSnapTolerance={5}
           padding={5}
           anchorSize={10}
           anchorCornerRadius={5}
@@ -155,6 +206,8 @@ const DraggableImage: React.FC<DraggableImageProps> = ({
           borderStrokeWidth={2}
           anchorStrokeWidth={2}
           keepRatio={false}
+          anchorDragBoundFunc={anchorDragBoundFunc}
+          anchorStyleFunc={anchorStyleFunc}
         />
       )}
     </>
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import Konva from 'konva';
+import { Group, Rect, Text } from 'react-konva';
+import { KonvaEventObject } from 'konva/lib/Node';
+import { TextType } from '@/app/types/canvas';
+import {
+  STICKY_FILL,
+  STICKY_PADDING,
+  STICKY_SIZE,
+  TEXT_FONT_FAMILY,
+  TEXT_LINE_HEIGHT,
+} from '@/app/utils/text-style';
+
+// Measure the bounds a text element needs so it can grow with its content.
+// Plain text grows in both directions, sticky notes keep their width and only
+// grow downwards (never smaller than the default square).
+export const measureTextBounds = ({
+  type,
+  text,
+  fontSize,
+  width,
+}: {
+  type: TextType;
+  text: string;
+  fontSize: number;
+  width?: number;
+}) => {
+  if (type === 'sticky') {
+    const stickyWidth = width || STICKY_SIZE;
+    const node = new Konva.Text({
+      text: text || ' ',
+      fontSize,
+      fontFamily: TEXT_FONT_FAMILY,
+      lineHeight: TEXT_LINE_HEIGHT,
+      width: stickyWidth - STICKY_PADDING * 2,
+      wrap: 'word',
+    });
+    return {
+      width: stickyWidth,
+      height: Math.max(STICKY_SIZE, node.height() + STICKY_PADDING * 2),
+    };
+  }
+
+  const node = new Konva.Text({
+    text: text || ' ',
+    fontSize,
+    fontFamily: TEXT_FONT_FAMILY,
+    lineHeight: TEXT_LINE_HEIGHT,
+  });
+  return {
+    width: Math.max(fontSize, node.width()),
+    height: node.height(),
+  };
+};
+
+export interface EditableTextProps {
+  id: string;
+  type: TextType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  fontSize: number;
+  color: string;
+  fill?: string;
+  isSelected: boolean;
+  isEditing: boolean;
+  activeTool: string;
+  draggable: boolean;
+  onClick: (e: KonvaEventObject<MouseEvent | TouchEvent>) => void;
+  onDblClick: (id: string) => void;
+  onDragMove?: (e: KonvaEventObject<DragEvent>) => void;
+  onDragEnd: (id: string, newX: number, newY: number) => void;
+}
+
+const EditableText: React.FC<EditableTextProps> = ({
+  id,
+  type,
+  x,
+  y,
+  width,
+  height,
+  text,
+  fontSize,
+  color,
+  fill,
+  isSelected,
+  isEditing,
+  activeTool,
+  draggable,
+  onClick,
+  onDblClick,
+  onDragMove,
+  onDragEnd,
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const isSticky = type === 'sticky';
+
+  const handleClick = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    // Only trigger click if we weren't dragging
+    if (!isDragging) {
+      onClick(e);
+    }
+    setIsDragging(false);
+  };
+
+  const handleDragEnd = (e: KonvaEventObject<DragEvent>) => {
+    setIsDragging(false);
+    onDragEnd(id, e.target.x(), e.target.y());
+  };
+
+  return (
+    <Group
+      id={id}
+      x={x}
+      y={y}
+      draggable={draggable && activeTool === "select" && !isEditing}
+      onClick={handleClick}
+      onTap={handleClick}
+      onDblClick={() => onDblClick(id)}
+      onDblTap={() => onDblClick(id)}
+      onDragStart={() => setIsDragging(true)}
+      onDragMove={onDragMove}
+      onDragEnd={handleDragEnd}
+    >
+      {isSticky ? (
+        <Rect
+          width={width}
+          height={height}
+          fill={fill || STICKY_FILL}
+          cornerRadius={4}
+          shadowColor="#000"
+          shadowBlur={8}
+          shadowOpacity={0.15}
+          shadowOffsetY={2}
+          perfectDrawEnabled={false}
+        />
+      ) : (
+        // Invisible hit area so the whole bounds are clickable
+        <Rect width={width} height={height} fill="transparent" />
+      )}
+      <Text
+        x={isSticky ? STICKY_PADDING : 0}
+        y={isSticky ? STICKY_PADDING : 0}
+        width={isSticky ? width - STICKY_PADDING * 2 : undefined}
+        text={text}
+        fontSize={fontSize}
+        fontFamily={TEXT_FONT_FAMILY}
+        lineHeight={TEXT_LINE_HEIGHT}
+        fill={color}
+        wrap="word"
+        visible={!isEditing}
+        perfectDrawEnabled={false}
+      />
+      {isSelected && !isEditing && (
+        <Rect
+          x={-4}
+          y={-4}
+          width={width + 8}
+          height={height + 8}
+          stroke="#0096FF"
+          strokeWidth={2}
+          dash={[5, 5]}
+          listening={false}
+          perfectDrawEnabled={false}
+        />
+      )}
+    </Group>
+  );
+};
+
+export default EditableText;
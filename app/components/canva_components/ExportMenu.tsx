@@ -0,0 +1,247 @@
+import React, { useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat, ExportScope } from '@/app/utils/board-export';
+import { BOARD_FILE_EXTENSION } from '@/app/utils/board-document';
+import type { RoomBackupSnapshot } from '@/app/utils/s3-upload';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  pixelRatio: number;
+}
+
+export type BoardImportMode = 'replace' | 'merge';
+
+interface ExportMenuProps {
+  hasSelection: boolean;
+  // Viewers can export and download but not import or restore
+  canEdit: boolean;
+  onExport: (options: ExportOptions) => Promise<void>;
+  onBoardExport: () => void;
+  onBoardImport: (file: File, mode: BoardImportMode) => Promise<void>;
+  onLoadBackups: () => Promise<RoomBackupSnapshot[]>;
+  onRestoreBackup: (snapshot: RoomBackupSnapshot) => Promise<void>;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+const SCOPES: { value: ExportScope; label: string }[] = [
+  { value: 'board', label: 'Whole board' },
+  { value: 'viewport', label: 'Current view' },
+  { value: 'selection', label: 'Selection' },
+];
+
+const PIXEL_RATIOS = [1, 2, 3];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  hasSelection,
+  canEdit,
+  onExport,
+  onBoardExport,
+  onBoardImport,
+  onLoadBackups,
+  onRestoreBackup,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<BoardImportMode>('replace');
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'png',
+    scope: 'board',
+    pixelRatio: 2,
+  });
+  const [backups, setBackups] = useState<RoomBackupSnapshot[] | null>(null);
+  const [backupsError, setBackupsError] = useState<string | null>(null);
+
+  const scope = options.scope === 'selection' && !hasSelection ? 'board' : options.scope;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({ ...options, scope });
+      setIsOpen(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportClick = (mode: BoardImportMode) => {
+    importModeRef.current = mode;
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+    await onBoardImport(file, importModeRef.current);
+    setIsOpen(false);
+  };
+
+  const loadBackups = async () => {
+    setBackupsError(null);
+    try {
+      setBackups(await onLoadBackups());
+    } catch (error) {
+      setBackupsError((error as Error).message);
+    }
+  };
+
+  const handleRestore = async (snapshot: RoomBackupSnapshot) => {
+    await onRestoreBackup(snapshot);
+    setIsOpen(false);
+  };
+
+  const optionStyle = (isActive: boolean) =>
+    `flex-1 px-2 py-1 rounded hover:bg-gray-100 ${isActive ? 'bg-gray-100 text-[#2100FF]' : ''}`;
+
+  return (
+    <div className="flex flex-col items-end gap-2 text-sm">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen((prev) => !prev);
+          setBackups(null);
+        }}
+        className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg shadow-md hover:bg-gray-100"
+      >
+        <Download size={16} />
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          className="flex flex-col gap-3 bg-white p-3 rounded-lg shadow-md w-60"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex flex-col gap-1">
+            <span className="text-gray-500">Format</span>
+            <div className="flex gap-1">
+              {FORMATS.map((format) => (
+                <button
+                  key={format.value}
+                  onClick={() => setOptions((prev) => ({ ...prev, format: format.value }))}
+                  className={optionStyle(options.format === format.value)}
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <span className="text-gray-500">Area</span>
+            {SCOPES.map((item) => (
+              <button
+                key={item.value}
+                disabled={item.value === 'selection' && !hasSelection}
+                onClick={() => setOptions((prev) => ({ ...prev, scope: item.value }))}
+                className={`${optionStyle(scope === item.value)} text-left disabled:opacity-40`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+
+          {options.format !== 'svg' && (
+            <div className="flex flex-col gap-1">
+              <span className="text-gray-500">Resolution</span>
+              <div className="flex gap-1">
+                {PIXEL_RATIOS.map((ratio) => (
+                  <button
+                    key={ratio}
+                    onClick={() => setOptions((prev) => ({ ...prev, pixelRatio: ratio }))}
+                    className={optionStyle(options.pixelRatio === ratio)}
+                  >
+                    {ratio}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-3 py-2 rounded bg-[#2100FF] text-white hover:opacity-90 disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+
+          <div className="flex flex-col gap-1 border-t border-gray-100 pt-3">
+            <span className="text-gray-500">Board file ({BOARD_FILE_EXTENSION})</span>
+            <button
+              onClick={onBoardExport}
+              className={`${optionStyle(false)} text-left`}
+            >
+              Download board file
+            </button>
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => handleImportClick('replace')}
+                  className={`${optionStyle(false)} text-left`}
+                >
+                  Import and replace board
+                </button>
+                <button
+                  onClick={() => handleImportClick('merge')}
+                  className={`${optionStyle(false)} text-left`}
+                >
+                  Import and merge into board
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={`${BOARD_FILE_EXTENSION},.json,application/json`}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+              </>
+            )}
+          </div>
+
+          {canEdit && (
+            <div className="flex flex-col gap-1 border-t border-gray-100 pt-3">
+              <span className="text-gray-500">Version history</span>
+              {backups === null ? (
+                <button
+                  onClick={loadBackups}
+                  className={`${optionStyle(false)} text-left`}
+                >
+                  Show backups
+                </button>
+              ) : backups.length === 0 ? (
+                <span className="px-2 py-1 text-gray-400">No backups yet</span>
+              ) : (
+                <div className="flex flex-col max-h-48 overflow-y-auto">
+                  {backups.map((snapshot) => (
+                    <button
+                      key={snapshot.id}
+                      onClick={() => handleRestore(snapshot)}
+                      title="Restore this backup"
+                      className={`${optionStyle(false)} text-left`}
+                    >
+                      {new Date(snapshot.createdAt).toLocaleString()}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {backupsError && (
+                <span className="px-2 text-red-500">{backupsError}</span>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Eye, EyeOff, Lock, Unlock, X } from 'lucide-react';
+import { OrderedElement } from '@/app/utils/z-order';
+import { buildBoardSvg, getExportPrimitives, getPrimitivesBounds } from '@/app/utils/board-export';
+
+type LayerKind = OrderedElement['kind'];
+type LayerFlag = 'locked' | 'hidden';
+type DropPosition = 'above' | 'below';
+
+interface LayersPanelProps {
+  // Bottom to top, as returned by getOrderedElements
+  elements: OrderedElement[];
+  selectedIds: string[];
+  imageSizes: Map<string, { width: number; height: number }>;
+  onSelect: (id: string, additive: boolean) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (ids: string[], targetId: string, position: DropPosition) => void;
+  onToggleFlag: (id: string, flag: LayerFlag) => void;
+  onClose: () => void;
+}
+
+const FILTERS: { value: LayerKind | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'image', label: 'Images' },
+  { value: 'shape', label: 'Shapes' },
+  { value: 'line', label: 'Drawings' },
+  { value: 'text', label: 'Text' },
+];
+
+const SHAPE_LABELS: Record<string, string> = {
+  rectangle: 'Rectangle',
+  circle: 'Circle',
+  line: 'Line',
+  arrow: 'Arrow',
+  star: 'Star',
+  triangle: 'Triangle',
+};
+
+const getTypeLabel = (item: OrderedElement) => {
+  switch (item.kind) {
+    case 'image':
+      return 'Image';
+    case 'shape':
+      return SHAPE_LABELS[item.element.type] ?? 'Shape';
+    case 'line':
+      return 'Drawing';
+    case 'text':
+      return item.element.type === 'sticky' ? 'Sticky note' : 'Text';
+  }
+};
+
+const getDisplayName = (item: OrderedElement) =>
+  item.element.name ||
+  (item.kind === 'text' && item.element.text.trim().slice(0, 40)) ||
+  getTypeLabel(item);
+
+// Images show themselves; everything else is drawn as a small SVG
+const getThumbnail = (
+  item: OrderedElement,
+  imageSizes: Map<string, { width: number; height: number }>
+) => {
+  if (item.kind === 'image') return item.element.url || null;
+
+  // Hidden elements still get a thumbnail
+  const primitives = getExportPrimitives({
+    images: [],
+    shapes: item.kind === 'shape' ? [{ ...item.element, hidden: false }] : [],
+    lines: item.kind === 'line' ? [{ ...item.element, hidden: false }] : [],
+    texts: item.kind === 'text' ? [{ ...item.element, hidden: false }] : [],
+  }, { imageSizes });
+  const bounds = getPrimitivesBounds(primitives, 4);
+  if (!bounds) return null;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(buildBoardSvg(primitives, bounds, 'none'))}`;
+};
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  elements,
+  selectedIds,
+  imageSizes,
+  onSelect,
+  onRename,
+  onMove,
+  onToggleFlag,
+  onClose,
+}) => {
+  const [filter, setFilter] = useState<LayerKind | 'all'>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draggedIds, setDraggedIds] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+
+  // Topmost element first, like every layers panel
+  const rows = useMemo(
+    () => [...elements].reverse().filter((item) => filter === 'all' || item.kind === filter),
+    [elements, filter]
+  );
+
+  const thumbnails = useMemo(
+    () => new Map(elements.map((item) => [item.element.id, getThumbnail(item, imageSizes)])),
+    [elements, imageSizes]
+  );
+
+  const startRename = (item: OrderedElement) => {
+    setEditingId(item.element.id);
+    setDraftName(item.element.name ?? '');
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const handleDragStart = (e: React.DragEvent, id: string) => {
+    // Dragging a selected row moves the whole selection
+    setDraggedIds(selectedIds.includes(id) ? selectedIds : [id]);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, id: string) => {
+    if (draggedIds.length === 0 || draggedIds.includes(id)) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    // Rows higher in the list are higher in the stack
+    const position = e.clientY < rect.top + rect.height / 2 ? 'above' : 'below';
+    setDropTarget((prev) => (prev?.id === id && prev.position === position ? prev : { id, position }));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dropTarget) onMove(draggedIds, dropTarget.id, dropTarget.position);
+    setDraggedIds([]);
+    setDropTarget(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedIds([]);
+    setDropTarget(null);
+  };
+
+  return (
+    <div
+      className="flex flex-col gap-2 bg-white p-3 rounded-lg shadow-md text-sm w-64 max-h-[60vh]"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Layers</span>
+        <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {FILTERS.map((item) => (
+          <button
+            key={item.value}
+            onClick={() => setFilter(item.value)}
+            className={`px-2 py-0.5 rounded hover:bg-gray-100 ${
+              filter === item.value ? 'bg-gray-100 text-[#2100FF]' : ''
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col overflow-y-auto -mx-1">
+        {rows.length === 0 && (
+          <span className="px-1 py-2 text-gray-400">Nothing here yet</span>
+        )}
+        {rows.map((item) => {
+          const { id, locked, hidden } = item.element;
+          const isSelected = selectedIds.includes(id);
+          const thumbnail = thumbnails.get(id);
+          const dropPosition = dropTarget?.id === id ? dropTarget.position : null;
+
+          return (
+            <div
+              key={id}
+              draggable={editingId !== id}
+              onDragStart={(e) => handleDragStart(e, id)}
+              onDragOver={(e) => handleDragOver(e, id)}
+              onDrop={handleDrop}
+              onDragEnd={handleDragEnd}
+              onClick={(e) => onSelect(id, e.shiftKey || e.metaKey || e.ctrlKey)}
+              className={`flex items-center gap-2 px-1 py-1 rounded cursor-pointer border-y-2 ${
+                isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+              } ${dropPosition === 'above' ? 'border-t-[#0096FF]' : 'border-t-transparent'} ${
+                dropPosition === 'below' ? 'border-b-[#0096FF]' : 'border-b-transparent'
+              } ${hidden ? 'opacity-50' : ''}`}
+            >
+              <div className="w-8 h-8 flex-shrink-0 flex items-center justify-center rounded border border-gray-200 bg-gray-50 overflow-hidden">
+                {thumbnail && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={thumbnail} alt="" className="max-w-full max-h-full object-contain" draggable={false} />
+                )}
+              </div>
+
+              <div className="flex flex-col flex-1 min-w-0">
+                {editingId === id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    placeholder={getDisplayName(item)}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="px-1 border border-gray-300 rounded outline-none"
+                  />
+                ) : (
+                  <span
+                    className="truncate"
+                    title="Double-click to rename"
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      startRename(item);
+                    }}
+                  >
+                    {getDisplayName(item)}
+                  </span>
+                )}
+                <span className="text-xs text-gray-400">{getTypeLabel(item)}</span>
+              </div>
+
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleFlag(id, 'locked');
+                }}
+                title={locked ? 'Unlock' : 'Lock'}
+                className={`p-1 rounded hover:bg-gray-100 ${locked ? 'text-gray-700' : 'text-gray-300'}`}
+              >
+                {locked ? <Lock size={14} /> : <Unlock size={14} />}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleFlag(id, 'hidden');
+                }}
+                title={hidden ? 'Show' : 'Hide'}
+                className={`p-1 rounded hover:bg-gray-100 ${hidden ? 'text-gray-700' : 'text-gray-300'}`}
+              >
+                {hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LayersPanel;
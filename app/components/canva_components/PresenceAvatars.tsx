@@ -0,0 +1,77 @@
+import React from 'react';
+import { getInitials } from '@/app/utils/presence';
+import type { Collaborator } from './CollaboratorCursors';
+
+interface PresenceAvatarsProps {
+  self: { name: string; color: string; avatar?: string } | null;
+  collaborators: readonly Collaborator[];
+  // Connection whose viewport is being followed
+  followingId: number | null;
+  onFollow: (connectionId: number | null) => void;
+}
+
+// Avatars shown before the rest collapse into "+n"
+const MAX_AVATARS = 5;
+
+const Avatar: React.FC<{ name: string; color: string; avatar?: string }> = ({ name, color, avatar }) =>
+  avatar ? (
+    // eslint-disable-next-line @next/next/no-img-element -- avatars come from the identity provider
+    <img src={avatar} alt="" className="w-full h-full rounded-full object-cover" />
+  ) : (
+    <span
+      className="flex items-center justify-center w-full h-full rounded-full text-xs font-medium text-white"
+      style={{ backgroundColor: color }}
+    >
+      {getInitials(name)}
+    </span>
+  );
+
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ self, collaborators, followingId, onFollow }) => {
+  const named = collaborators.filter(({ presence }) => presence.name);
+  const shown = named.slice(0, MAX_AVATARS);
+  const hidden = named.slice(MAX_AVATARS);
+  const ringStyle = (color: string, isActive: boolean) => ({
+    boxShadow: `0 0 0 2px white, 0 0 0 ${isActive ? 4 : 3}px ${color}`,
+  });
+
+  return (
+    <div className="flex items-center bg-white px-3 py-1.5 rounded-lg shadow-md">
+      <div className="flex items-center -space-x-1.5">
+        {shown.map(({ connectionId, presence }) => {
+          const isFollowing = followingId === connectionId;
+          return (
+            <button
+              key={connectionId}
+              onClick={() => onFollow(isFollowing ? null : connectionId)}
+              title={isFollowing ? `Stop following ${presence.name}` : `Follow ${presence.name}`}
+              className="relative w-7 h-7 rounded-full hover:z-10"
+              style={ringStyle(presence.color, isFollowing)}
+            >
+              <Avatar name={presence.name} color={presence.color} avatar={presence.avatar} />
+            </button>
+          );
+        })}
+        {hidden.length > 0 && (
+          <span
+            title={hidden.map(({ presence }) => presence.name).join(', ')}
+            className="relative flex items-center justify-center w-7 h-7 rounded-full bg-gray-100 text-xs text-gray-600"
+            style={ringStyle('#E5E7EB', false)}
+          >
+            +{hidden.length}
+          </span>
+        )}
+      </div>
+      {self && (
+        <div
+          title={`${self.name} (you)`}
+          className={`relative w-7 h-7 rounded-full ${shown.length > 0 ? 'ml-3' : ''}`}
+          style={ringStyle(self.color, false)}
+        >
+          <Avatar {...self} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { ShapeStyle } from '@/app/types/canvas';
+
+interface PropertiesPanelProps {
+  style: ShapeStyle;
+  showFill: boolean;
+  onChange: (style: Partial<ShapeStyle>) => void;
+}
+
+const FILL_COLORS = [
+  "transparent",
+  "#FFFFFF",
+  "#DDD6FE", // Purple
+  "#BFDBFE", // Blue
+  "#A7F3D0", // Green
+  "#FDE68A", // Yellow
+  "#FED7AA", // Orange
+  "#FECACA", // Red
+];
+
+const DASH_PATTERNS: { label: string; dash: number[] }[] = [
+  { label: "Solid", dash: [] },
+  { label: "Dashed", dash: [12, 8] },
+  { label: "Dotted", dash: [1, 8] },
+];
+
+const isSameDash = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
+  style,
+  showFill,
+  onChange,
+}) => {
+  return (
+    <div
+      className="flex flex-col gap-3 bg-white p-3 rounded-lg shadow-md text-sm w-52"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {showFill && (
+        <div className="flex flex-col gap-1">
+          <span className="text-gray-500">Fill</span>
+          <div className="flex flex-wrap gap-1 items-center">
+            {FILL_COLORS.map((color) => (
+              <button
+                key={color}
+                title={color === "transparent" ? "No fill" : color}
+                onClick={() => onChange({ fill: color })}
+                className={`w-5 h-5 rounded border border-gray-300 ${
+                  style.fill === color ? "ring-2 ring-offset-1 ring-[#0096FF]" : ""
+                }`}
+                style={{
+                  background: color === "transparent"
+                    ? "linear-gradient(135deg, #fff 45%, #F87171 45%, #F87171 55%, #fff 55%)"
+                    : color,
+                }}
+              />
+            ))}
+            <input
+              type="color"
+              value={style.fill.startsWith("#") ? style.fill : "#ffffff"}
+              onChange={(e) => onChange({ fill: e.target.value })}
+              className="w-5 h-5 p-0 border-0 cursor-pointer"
+            />
+          </div>
+        </div>
+      )}
+
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-500">Stroke width: {style.strokeWidth}</span>
+        <input
+          type="range"
+          min={1}
+          max={20}
+          value={style.strokeWidth}
+          onChange={(e) => onChange({ strokeWidth: Number(e.target.value) })}
+        />
+      </label>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-gray-500">Stroke style</span>
+        <div className="flex gap-1">
+          {DASH_PATTERNS.map((pattern) => (
+            <button
+              key={pattern.label}
+              onClick={() => onChange({ dash: pattern.dash })}
+              className={`flex-1 px-2 py-1 rounded hover:bg-gray-100 ${
+                isSameDash(style.dash, pattern.dash) ? "bg-gray-100 text-[#2100FF]" : ""
+              }`}
+            >
+              {pattern.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-500">Opacity: {Math.round(style.opacity * 100)}%</span>
+        <input
+          type="range"
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={style.opacity}
+          onChange={(e) => onChange({ opacity: Number(e.target.value) })}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default PropertiesPanel;
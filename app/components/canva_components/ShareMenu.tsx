@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Check, Copy, Share2 } from 'lucide-react';
+import { MemberRole, SHARE_LINK_EXPIRIES } from '@/app/utils/board-access';
+
+interface ShareMenuProps {
+  // Roles the current user may hand out; see canShareAs
+  roles: MemberRole[];
+  canRevoke: boolean;
+  onCreateLink: (role: MemberRole, expiresIn: number | null) => Promise<string>;
+  onRevokeLinks: () => Promise<void>;
+}
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  viewer: 'Can view',
+  editor: 'Can edit',
+};
+
+const ShareMenu: React.FC<ShareMenuProps> = ({
+  roles,
+  canRevoke,
+  onCreateLink,
+  onRevokeLinks,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [role, setRole] = useState<MemberRole>(roles[0]);
+  const [expiresIn, setExpiresIn] = useState<number | null>(null);
+  const [link, setLink] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    setLink(await onCreateLink(role, expiresIn));
+    setIsCopied(false);
+  });
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setIsCopied(true);
+  };
+
+  const handleRevoke = () => {
+    if (!window.confirm('Revoke every share link for this board? People who already joined keep their access.')) {
+      return;
+    }
+    run(async () => {
+      await onRevokeLinks();
+      setLink(null);
+    });
+  };
+
+  const optionStyle = (isActive: boolean) =>
+    `flex-1 px-2 py-1 rounded hover:bg-gray-100 ${isActive ? 'bg-gray-100 text-[#2100FF]' : ''}`;
+
+  return (
+    <div className="flex flex-col items-end gap-2 text-sm">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen((prev) => !prev);
+          setLink(null);
+          setError(null);
+        }}
+        className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg shadow-md hover:bg-gray-100"
+      >
+        <Share2 size={16} />
+        Share
+      </button>
+
+      {isOpen && (
+        <div
+          className="flex flex-col gap-3 bg-white p-3 rounded-lg shadow-md w-64"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex flex-col gap-1">
+            <span className="text-gray-500">Access</span>
+            <div className="flex gap-1">
+              {roles.map((item) => (
+                <button key={item} onClick={() => setRole(item)} className={optionStyle(role === item)}>
+                  {ROLE_LABELS[item]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <span className="text-gray-500">Expires</span>
+            <select
+              value={expiresIn ?? ''}
+              onChange={(e) => setExpiresIn(e.target.value ? Number(e.target.value) : null)}
+              className="border border-gray-300 rounded px-1 py-1"
+            >
+              {SHARE_LINK_EXPIRIES.map(({ label, seconds }) => (
+                <option key={label} value={seconds ?? ''}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleCreate}
+            disabled={isWorking}
+            className="px-3 py-2 rounded bg-[#2100FF] text-white hover:opacity-90 disabled:opacity-50"
+          >
+            Create link
+          </button>
+
+          {link && (
+            <div className="flex items-center gap-1">
+              <input
+                readOnly
+                value={link}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-1 text-gray-600"
+              />
+              <button onClick={handleCopy} title="Copy link" className="p-1.5 rounded hover:bg-gray-100">
+                {isCopied ? <Check size={16} /> : <Copy size={16} />}
+              </button>
+            </div>
+          )}
+
+          {canRevoke && (
+            <button
+              onClick={handleRevoke}
+              disabled={isWorking}
+              className="border-t border-gray-100 pt-3 text-left text-red-600 hover:underline disabled:opacity-50"
+            >
+              Revoke all share links
+            </button>
+          )}
+
+          {error && <span className="text-red-500">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareMenu;
@@ -0,0 +1,61 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { SHORTCUTS, SHORTCUT_GROUPS, formatCombo } from '@/app/utils/shortcuts';
+
+interface ShortcutsOverlayProps {
+  onClose: () => void;
+}
+
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onMouseDown={onClose}
+    >
+      <div
+        className="relative bg-white rounded-lg shadow-xl p-5 text-sm max-h-[80vh] overflow-y-auto"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-base font-semibold">Keyboard shortcuts</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-10 gap-y-5">
+          {SHORTCUT_GROUPS.map((group) => (
+            <div key={group} className="flex flex-col gap-1 min-w-56">
+              <span className="text-gray-500 mb-1">{group}</span>
+              {SHORTCUTS.filter((shortcut) => shortcut.group === group).map((shortcut) => (
+                <div key={shortcut.action} className="flex items-center justify-between gap-4">
+                  <span>{shortcut.label}</span>
+                  <span className="flex flex-wrap justify-end gap-1">
+                    {shortcut.keys.map((combo) => (
+                      <kbd
+                        key={combo}
+                        className="px-1.5 py-0.5 rounded border border-gray-300 bg-gray-50 text-xs font-mono"
+                      >
+                        {formatCombo(combo)}
+                      </kbd>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
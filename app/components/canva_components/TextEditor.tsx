@@ -0,0 +1,94 @@
+import React, { useEffect, useRef } from 'react';
+import { TextType } from '@/app/types/canvas';
+import {
+  STICKY_PADDING,
+  TEXT_FONT_FAMILY,
+  TEXT_LINE_HEIGHT,
+} from '@/app/utils/text-style';
+
+interface TextEditorProps {
+  type: TextType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  fontSize: number;
+  color: string;
+  viewport: { x: number; y: number; scale: number };
+  onChange: (text: string) => void;
+  onClose: () => void;
+}
+
+// HTML textarea laid over a text element while it is being edited
+const TextEditor: React.FC<TextEditorProps> = ({
+  type,
+  x,
+  y,
+  width,
+  height,
+  text,
+  fontSize,
+  color,
+  viewport,
+  onChange,
+  onClose,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isSticky = type === 'sticky';
+  const padding = isSticky ? STICKY_PADDING : 0;
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keep canvas shortcuts (Delete, Ctrl+C...) away while typing
+    e.stopPropagation();
+    if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      // Blurring ends the edit through onBlur
+      textareaRef.current?.blur();
+    }
+  };
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={text}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={onClose}
+      onClick={(e) => e.stopPropagation()}
+      spellCheck={false}
+      style={{
+        position: 'absolute',
+        left: viewport.x + (x + padding) * viewport.scale,
+        top: viewport.y + (y + padding) * viewport.scale,
+        width: isSticky
+          ? (width - padding * 2) * viewport.scale
+          : (width + fontSize) * viewport.scale,
+        height: (height - padding * 2) * viewport.scale,
+        fontSize: fontSize * viewport.scale,
+        fontFamily: TEXT_FONT_FAMILY,
+        lineHeight: TEXT_LINE_HEIGHT,
+        color,
+        background: 'transparent',
+        border: 'none',
+        outline: 'none',
+        padding: 0,
+        margin: 0,
+        resize: 'none',
+        overflow: 'hidden',
+        whiteSpace: isSticky ? 'pre-wrap' : 'pre',
+        wordBreak: isSticky ? 'break-word' : 'normal',
+        zIndex: 100,
+      }}
+    />
+  );
+};
+
+export default TextEditor;
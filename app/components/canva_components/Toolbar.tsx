@@ -3,19 +3,27 @@ import {
   MousePointer2,
   Hand,
   Pencil,
+  Highlighter,
+  Eraser,
   Circle as CircleIcon,
   Redo,
   RotateCcw,
   Star,
   Move,
+  Type,
+  StickyNote,
 } from "lucide-react";
 import { ToolType } from "@/app/types/canvas";
+import { TOOL_SHORTCUTS } from "@/app/utils/shortcuts";
 
 interface ToolbarProps {
   activeTool: ToolType;
   setActiveTool: Dispatch<SetStateAction<ToolType>>;
   strokeColor: string;
   setStrokeColor: (color: string) => void;
+  fontSize: number;
+  setFontSize: (size: number) => void;
+  showTextOptions: boolean;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
@@ -33,6 +41,13 @@ const COLORS = [
   "#CCCCCC", // Gray
 ];
 
+const FONT_SIZES = [16, 24, 32, 48];
+
+const SHAPE_TOOLS: ToolType[] = ["rectangle", "line", "arrow", "star", "move", "triangle", "circle"];
+
+const toolTitle = (tool: ToolType) =>
+  `${TOOL_SHORTCUTS[tool].label} (${TOOL_SHORTCUTS[tool].key})`;
+
 // Custom triangle icon component
 const TriangleIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -80,6 +95,9 @@ const Toolbar: React.FC<ToolbarProps> = ({
   setActiveTool,
   strokeColor,
   setStrokeColor,
+  fontSize,
+  setFontSize,
+  showTextOptions,
   onUndo,
   onRedo,
   canUndo,
@@ -99,13 +117,18 @@ const Toolbar: React.FC<ToolbarProps> = ({
   const buttonStyle = "hover:bg-white/20 transition-all duration-300 relative text-[#B0B0B0]";
   const activeButtonStyle = "[&>*]:text-[#2100FF] bg-white/30 shadow-inner";
 
+  const isTextToolActive = activeTool === "text" || activeTool === "sticky";
+  // Also open when a shape tool was picked with its keyboard shortcut
+  const isShapesPanelOpen = showShapesPanel || SHAPE_TOOLS.includes(activeTool);
+
   return (
     <div className="fixed right-5 top-1/2 -translate-y-1/2 flex gap-3">
       {/* Shapes panel - shown when a shape tool is active */}
-      {showShapesPanel && (
+      {isShapesPanelOpen && (
         <div className={`${glassStyle} rounded-2xl py-4 px-3 flex flex-col items-center justify-center gap-3 relative`}>
           <button
             onClick={() => handleShapeClick("line")}
+            title={toolTitle("line")}
             className={`w-6 h-6 flex items-center justify-center rounded-lg ${buttonStyle} ${
               activeTool === "line" ? activeButtonStyle : ""
             }`}
@@ -114,6 +137,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           </button>
           <button
             onClick={() => handleShapeClick("arrow")}
+            title={toolTitle("arrow")}
             className={`w-6 h-6 flex items-center justify-center rounded-lg ${buttonStyle} ${
               activeTool === "arrow" ? activeButtonStyle : ""
             }`}
@@ -122,6 +146,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           </button>
           <button
             onClick={() => handleShapeClick("star")}
+            title={toolTitle("star")}
             className={`w-6 h-6 flex items-center justify-center rounded-lg ${buttonStyle} ${
               activeTool === "star" ? activeButtonStyle : ""
             }`}
@@ -130,6 +155,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           </button>
           <button
             onClick={() => handleShapeClick("move")}
+            title={toolTitle("move")}
             className={`w-6 h-6 flex items-center justify-center rounded-lg ${buttonStyle} ${
               activeTool === "move" ? activeButtonStyle : ""
             }`}
@@ -138,6 +164,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           </button>
           <button
             onClick={() => handleShapeClick("triangle")}
+            title={toolTitle("triangle")}
             className={`w-6 h-6 flex items-center justify-center rounded-lg ${buttonStyle} ${
               activeTool === "triangle" ? activeButtonStyle : ""
             }`}
@@ -146,6 +173,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           </button>
           <button
             onClick={() => handleShapeClick("rectangle")}
+            title={toolTitle("rectangle")}
             className={`w-6 h-6 flex items-center justify-center rounded-lg ${buttonStyle} ${
               activeTool === "rectangle" ? activeButtonStyle : ""
             }`}
@@ -154,6 +182,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           </button>
           <button
             onClick={() => handleShapeClick("circle")}
+            title={toolTitle("circle")}
             className={`w-6 h-6 flex items-center justify-center rounded-lg ${buttonStyle} ${
               activeTool === "circle" ? activeButtonStyle : ""
             }`}
@@ -163,8 +192,25 @@ const Toolbar: React.FC<ToolbarProps> = ({
         </div>
       )}
 
-      {/* Color palette - only shown when pen tool is active */}
-      {activeTool === "pen" && (
+      {/* Font sizes - shown for text tools or when text is selected */}
+      {(isTextToolActive || showTextOptions) && (
+        <div className={`${glassStyle} rounded-2xl p-3 flex flex-col items-center justify-center gap-2 relative`}>
+          {FONT_SIZES.map((size) => (
+            <button
+              key={size}
+              onClick={() => setFontSize(size)}
+              className={`w-8 h-6 flex items-center justify-center rounded-lg text-xs ${buttonStyle} ${
+                fontSize === size ? activeButtonStyle : ""
+              }`}
+            >
+              <span>{size}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Color palette - shown for pen, highlighter and text tools or when text is selected */}
+      {(activeTool === "pen" || activeTool === "highlighter" || isTextToolActive || showTextOptions) && (
         <div className={`${glassStyle} rounded-2xl p-3 flex flex-col items-center justify-center gap-2 relative`}>
           {COLORS.map((color) => (
             <button
@@ -193,6 +239,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
               setActiveTool("select");
               setShowShapesPanel(false);
             }}
+            title={toolTitle("select")}
             className={`p-2 rounded-lg ${buttonStyle} ${
               activeTool === "select" ? activeButtonStyle : ""
             }`}
@@ -204,6 +251,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
               setActiveTool("hand");
               setShowShapesPanel(false);
             }}
+            title={toolTitle("hand")}
             className={`p-2 rounded-lg ${buttonStyle} ${
               activeTool === "hand" ? activeButtonStyle : ""
             }`}
@@ -215,16 +263,66 @@ const Toolbar: React.FC<ToolbarProps> = ({
               setActiveTool("pen");
               setShowShapesPanel(false);
             }}
+            title={toolTitle("pen")}
             className={`p-2 rounded-lg ${buttonStyle} ${
               activeTool === "pen" ? activeButtonStyle : ""
             }`}
           >
             <Pencil size={20} />
           </button>
+          <button
+            onClick={() => {
+              setActiveTool("highlighter");
+              setShowShapesPanel(false);
+            }}
+            title={toolTitle("highlighter")}
+            className={`p-2 rounded-lg ${buttonStyle} ${
+              activeTool === "highlighter" ? activeButtonStyle : ""
+            }`}
+          >
+            <Highlighter size={20} />
+          </button>
+          <button
+            onClick={() => {
+              setActiveTool("eraser");
+              setShowShapesPanel(false);
+            }}
+            title={toolTitle("eraser")}
+            className={`p-2 rounded-lg ${buttonStyle} ${
+              activeTool === "eraser" ? activeButtonStyle : ""
+            }`}
+          >
+            <Eraser size={20} />
+          </button>
+          <button
+            onClick={() => {
+              setActiveTool("text");
+              setShowShapesPanel(false);
+            }}
+            title={toolTitle("text")}
+            className={`p-2 rounded-lg ${buttonStyle} ${
+              activeTool === "text" ? activeButtonStyle : ""
+            }`}
+          >
+            <Type size={20} />
+          </button>
+          <button
+            onClick={() => {
+              setActiveTool("sticky");
+              setShowShapesPanel(false);
+            }}
+            title={toolTitle("sticky")}
+            className={`p-2 rounded-lg ${buttonStyle} ${
+              activeTool === "sticky" ? activeButtonStyle : ""
+            }`}
+          >
+            <StickyNote size={20} />
+          </button>
           <button
             onClick={() => handleShapeClick("rectangle")}
+            title="Shapes"
             className={`p-2 rounded-lg ${buttonStyle} ${
-              (showShapesPanel || ["rectangle", "line", "arrow", "star", "move", "triangle", "circle"].includes(activeTool)) ? activeButtonStyle : ""
+              isShapesPanelOpen ? activeButtonStyle : ""
             }`}
           >
             <ShapeIcon />
@@ -232,6 +330,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           <button
             onClick={onUndo}
             disabled={!canUndo}
+            title="Undo"
             className={`p-2 rounded-lg ${buttonStyle} ${
               !canUndo ? "opacity-20" : ""
             }`}
@@ -241,6 +340,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           <button
             onClick={onRedo}
             disabled={!canRedo}
+            title="Redo"
             className={`p-2 rounded-lg ${buttonStyle} ${
               !canRedo ? "opacity-20" : ""
             }`}
@@ -3,6 +3,7 @@ export interface CanvasImage {
   url: string;
   x: number;
   y: number;
+  rotation?: number;
 }
 
 export interface ViewportState {
@@ -21,6 +22,7 @@ export interface Shape {
   points?: number[];  // For line, arrow, and star
   color: string;
   strokeWidth: number;
+  rotation?: number;
 }
 
 export interface SelectionRect {
@@ -1,45 +1,141 @@
-import { createClient } from "@liveblocks/client";
+import { createClient, LiveList, LiveObject } from "@liveblocks/client";
 import { createRoomContext } from "@liveblocks/react";
+import type { BoardRole } from "./utils/board-access";
 
 type Presence = {
   cursor: { x: number; y: number } | null;
   lastUpdate: number;
+  // Who this is, copied from the room token once connected (see utils/presence)
+  name: string;
+  color: string;
+  avatar?: string;
+  // World point at the center of the screen and the zoom, so others can follow
+  viewport: { x: number; y: number; scale: number } | null;
+  selectedIds: string[];
+  // Elements being dragged, resized, drawn or typed into right now
+  editingIds: string[];
 };
 
+// Set by /api/liveblocks-auth from the signed-in user
+type UserMeta = {
+  id: string;
+  info: {
+    name: string;
+    email: string;
+    avatar?: string;
+    role: BoardRole;
+  };
+};
+
+// Fields shared by every element kind
+type ElementMeta = {
+  // Name shown in the layers panel; a default is derived when unset
+  name?: string;
+  // Stacking order across all element kinds, higher is on top
+  zIndex?: number;
+  // Groups the element belongs to, outermost first (see utils/groups)
+  groupIds?: string[];
+  // Locked elements can be selected but not moved, resized or marquee-selected
+  locked?: boolean;
+  // Hidden elements are neither drawn nor exported
+  hidden?: boolean;
+};
+
+type ImageElement = ElementMeta & {
+  id: string;
+  url: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number;
+};
+
+// Where a connector end attaches to an element (see utils/connectors)
+type ConnectorAnchor = "top" | "right" | "bottom" | "left" | "center";
+
+type ShapeElement = ElementMeta & {
+  id: string;
+  type: "rectangle" | "circle" | "line" | "arrow" | "star" | "triangle";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  points?: number[];
+  color: string;
+  strokeWidth: number;
+  rotation?: number;
+  fill?: string;
+  opacity?: number;
+  dash?: number[];
+  // Lines and arrows only: ends bound to another element's anchor, and how
+  // the route between them is drawn (straight when unset)
+  fromId?: string;
+  fromAnchor?: ConnectorAnchor;
+  toId?: string;
+  toAnchor?: ConnectorAnchor;
+  routing?: "straight" | "elbow";
+  label?: string;
+};
+
+type LineElement = ElementMeta & {
+  id: string;
+  points: number[];
+  color: string;
+  width: number;
+  opacity?: number;
+  dash?: number[];
+  // Pen pressure per point (0..1); strokes drawn with a mouse have none
+  pressures?: number[];
+};
+
+type TextElement = ElementMeta & {
+  id: string;
+  type: "text" | "sticky";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  fontSize: number;
+  color: string;
+  fill?: string;
+};
+
+// Each element is its own LiveObject so edits are stored as per-element
+// operations, and undo/redo only reverts this client's own changes
 type Storage = {
-  images: Array<{
-    id: string;
-    url: string;
-    x: number;
-    y: number;
-    width?: number;
-    height?: number;
-  }>;
-  shapes: Array<{
-    id: string;
-    type: "rectangle" | "circle" | "line" | "arrow" | "star" | "triangle";
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    points?: number[];
-    color: string;
-    strokeWidth: number;
-  }>;
-  lines: Array<{
-    id: string;
-    points: number[];
-    color: string;
-    width: number;
-  }>;
+  images: LiveList<LiveObject<ImageElement>>;
+  shapes: LiveList<LiveObject<ShapeElement>>;
+  lines: LiveList<LiveObject<LineElement>>;
+  texts: LiveList<LiveObject<TextElement>>;
+};
+
+// Plain snapshot of the board as returned by useStorage
+type BoardState = {
+  images: ImageElement[];
+  shapes: ShapeElement[];
+  lines: LineElement[];
+  texts: TextElement[];
 };
 
+// Tokens come from our auth route, which only lets users into their boards
 const client = createClient({
-  publicApiKey: process.env.NEXT_PUBLIC_LIVEBLOCKS_PUBLIC_KEY!,
+  authEndpoint: "/api/liveblocks-auth",
   throttle: 16,
 });
 
-export type { Storage, Presence };
+export type {
+  Storage,
+  Presence,
+  UserMeta,
+  BoardState,
+  ImageElement,
+  ShapeElement,
+  LineElement,
+  TextElement,
+  ConnectorAnchor,
+};
 
 export const {
   RoomProvider,
@@ -48,4 +144,8 @@ export const {
   useOthers,
   useUpdateMyPresence,
   useSelf,
-} = createRoomContext<Presence, Storage>(client);
+  useHistory,
+  useCanUndo,
+  useCanRedo,
+  useBatch,
+} = createRoomContext<Presence, Storage, UserMeta>(client);
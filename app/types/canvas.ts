@@ -1,2 +1,10 @@
 export type ShapeType = "rectangle" | "circle" | "line" | "arrow" | "star" | "triangle";
-export type ToolType = ShapeType | "select" | "pen" | "hand" | "move"; 
\ No newline at end of file
+export type TextType = "text" | "sticky";
+export type ToolType = ShapeType | TextType | "select" | "pen" | "highlighter" | "eraser" | "hand" | "move";
+
+export interface ShapeStyle {
+  fill: string;
+  opacity: number;
+  strokeWidth: number;
+  dash: number[];
+}
@@ -0,0 +1,119 @@
+// -----------------------------------------------------------------------------
+// Align, distribute and tidy up for multi-selections. Each item is something
+// that moves as one (an element or a whole group) with its bounding box; the
+// helpers return how far every item has to move, keyed by item id.
+// -----------------------------------------------------------------------------
+
+import { Bounds } from "./canvas-geometry";
+
+export type AlignAction = "left" | "center" | "right" | "top" | "middle" | "bottom";
+export type DistributeAxis = "horizontal" | "vertical";
+
+export interface AlignItem {
+  id: string;
+  bounds: Bounds;
+}
+
+export type ItemOffsets = Map<string, { dx: number; dy: number }>;
+
+// Space between cells when tidying up, in world units
+const TIDY_SPACING = 20;
+
+const getUnionBounds = (items: AlignItem[]): Bounds => {
+  const minX = Math.min(...items.map(({ bounds }) => bounds.x));
+  const minY = Math.min(...items.map(({ bounds }) => bounds.y));
+  const maxX = Math.max(...items.map(({ bounds }) => bounds.x + bounds.width));
+  const maxY = Math.max(...items.map(({ bounds }) => bounds.y + bounds.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Drop items that don't actually move so callers only write real changes
+const withoutZeroOffsets = (offsets: ItemOffsets): ItemOffsets =>
+  new Map([...offsets].filter(([, { dx, dy }]) => Math.abs(dx) > 1e-6 || Math.abs(dy) > 1e-6));
+
+// Line every item up with the matching edge or center of the selection
+export const alignItems = (items: AlignItem[], action: AlignAction): ItemOffsets => {
+  if (items.length < 2) return new Map();
+  const union = getUnionBounds(items);
+  const offsets: ItemOffsets = new Map();
+
+  items.forEach(({ id, bounds }) => {
+    switch (action) {
+      case "left":
+        offsets.set(id, { dx: union.x - bounds.x, dy: 0 });
+        break;
+      case "center":
+        offsets.set(id, { dx: union.x + union.width / 2 - (bounds.x + bounds.width / 2), dy: 0 });
+        break;
+      case "right":
+        offsets.set(id, { dx: union.x + union.width - (bounds.x + bounds.width), dy: 0 });
+        break;
+      case "top":
+        offsets.set(id, { dx: 0, dy: union.y - bounds.y });
+        break;
+      case "middle":
+        offsets.set(id, { dx: 0, dy: union.y + union.height / 2 - (bounds.y + bounds.height / 2) });
+        break;
+      case "bottom":
+        offsets.set(id, { dx: 0, dy: union.y + union.height - (bounds.y + bounds.height) });
+        break;
+    }
+  });
+  return withoutZeroOffsets(offsets);
+};
+
+// Keep the outermost items in place and make the gaps between all items equal
+export const distributeItems = (items: AlignItem[], axis: DistributeAxis): ItemOffsets => {
+  if (items.length < 3) return new Map();
+  const start = (bounds: Bounds) => (axis === "horizontal" ? bounds.x : bounds.y);
+  const size = (bounds: Bounds) => (axis === "horizontal" ? bounds.width : bounds.height);
+
+  const sorted = [...items].sort((a, b) => start(a.bounds) - start(b.bounds));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const totalSize = sorted.reduce((sum, { bounds }) => sum + size(bounds), 0);
+  const gap = (start(last) + size(last) - start(first) - totalSize) / (sorted.length - 1);
+
+  const offsets: ItemOffsets = new Map();
+  let position = start(first);
+  sorted.forEach(({ id, bounds }) => {
+    const delta = position - start(bounds);
+    offsets.set(id, axis === "horizontal" ? { dx: delta, dy: 0 } : { dx: 0, dy: delta });
+    position += size(bounds) + gap;
+  });
+  return withoutZeroOffsets(offsets);
+};
+
+// Arrange items into a roughly square grid of equal cells, starting at the
+// selection's top-left corner. Items keep their reading order (rows top to
+// bottom, then left to right) and are centered in their cells.
+export const tidyUpItems = (items: AlignItem[]): ItemOffsets => {
+  if (items.length < 2) return new Map();
+  const union = getUnionBounds(items);
+  const columns = Math.ceil(Math.sqrt(items.length));
+  const cellWidth = Math.max(...items.map(({ bounds }) => bounds.width));
+  const cellHeight = Math.max(...items.map(({ bounds }) => bounds.height));
+  const centerX = (bounds: Bounds) => bounds.x + bounds.width / 2;
+  const centerY = (bounds: Bounds) => bounds.y + bounds.height / 2;
+
+  const byRow = [...items].sort((a, b) => centerY(a.bounds) - centerY(b.bounds));
+  const ordered: AlignItem[] = [];
+  for (let index = 0; index < byRow.length; index += columns) {
+    ordered.push(
+      ...byRow.slice(index, index + columns).sort((a, b) => centerX(a.bounds) - centerX(b.bounds))
+    );
+  }
+
+  const offsets: ItemOffsets = new Map();
+  ordered.forEach(({ id, bounds }, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    const cellX = union.x + column * (cellWidth + TIDY_SPACING);
+    const cellY = union.y + row * (cellHeight + TIDY_SPACING);
+    offsets.set(id, {
+      dx: cellX + (cellWidth - bounds.width) / 2 - bounds.x,
+      dy: cellY + (cellHeight - bounds.height) / 2 - bounds.y,
+    });
+  });
+  return withoutZeroOffsets(offsets);
+};
@@ -0,0 +1,83 @@
+// -----------------------------------------------------------------------------
+// Server-side sign-in and access checks for route handlers. Never import this
+// from client components.
+// -----------------------------------------------------------------------------
+
+import { NextRequest } from "next/server";
+import { SESSION_COOKIE, SessionUser, readSessionToken } from "./session";
+import { BoardRole, getBoardRole, hasBoardRole } from "./board-access";
+import { BoardMeta, getBoard } from "./s3-upload";
+
+// Thrown by the require* helpers; routes turn it into a JSON error response
+export class AccessError extends Error {
+  constructor(message: string, readonly status: 401 | 403 | 404) {
+    super(message);
+    this.name = "AccessError";
+  }
+}
+
+export interface BoardAccess {
+  user: SessionUser;
+  board: BoardMeta;
+  role: BoardRole;
+}
+
+// OAuth 2 authorization code flow against any provider with a userinfo
+// endpoint. See the README for the local stand-in provider.
+export const getAuthProviderConfig = () => {
+  const config = {
+    authorizeUrl: process.env.AUTH_AUTHORIZE_URL,
+    tokenUrl: process.env.AUTH_TOKEN_URL,
+    userinfoUrl: process.env.AUTH_USERINFO_URL,
+    clientId: process.env.AUTH_CLIENT_ID,
+    clientSecret: process.env.AUTH_CLIENT_SECRET,
+  };
+  const missing = Object.entries(config).filter(([, value]) => !value).map(([key]) => key);
+  if (missing.length > 0) {
+    throw new Error(`Sign-in is not configured, missing ${missing.join(", ")}`);
+  }
+  return {
+    ...(config as Record<keyof typeof config, string>),
+    scope: process.env.AUTH_SCOPE || "openid profile email",
+  };
+};
+
+// Holds the OAuth state and where to go after signing in
+export const AUTH_STATE_COOKIE = "newcanvas-auth-state";
+
+// Only same-site paths, so sign-in can't be used to redirect elsewhere
+export const getSafeCallbackUrl = (value: string | null | undefined) =>
+  value && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+
+export const getRequestUser = (request: NextRequest) =>
+  readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+export async function requireUser(request: NextRequest): Promise<SessionUser> {
+  const user = await getRequestUser(request);
+  if (!user) {
+    throw new AccessError("Sign in to continue", 401);
+  }
+  return user;
+}
+
+// Room and board ids, as used in Liveblocks room names and S3 keys
+export const ROOM_ID_PATTERN = /^[\w-]+$/;
+
+// The signed-in user's access to a board, if it is at least `minimum`
+export async function requireBoardRole(
+  request: NextRequest,
+  roomId: string,
+  minimum: BoardRole
+): Promise<BoardAccess> {
+  const user = await requireUser(request);
+  const board = await getBoard(roomId);
+  const role = board && getBoardRole(board, user);
+  if (!board || !role) {
+    // Boards the user can't see are reported as missing
+    throw new AccessError(`No board ${roomId}`, 404);
+  }
+  if (!hasBoardRole(role, minimum)) {
+    throw new AccessError(`This needs ${minimum} access to the board`, 403);
+  }
+  return { user, board, role };
+}
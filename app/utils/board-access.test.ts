@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BoardMember, addLinkMember, canShareAs, getBoardRole, hasBoardRole } from "./board-access";
+
+const NOW = new Date("2025-01-01T00:00:00.000Z");
+const LATER = "2025-02-01T00:00:00.000Z";
+const EARLIER = "2024-12-01T00:00:00.000Z";
+
+const owner = { id: "owner-1", email: "owner@example.com" };
+const guest = { id: "guest-1", email: " Guest@Example.com " };
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("getBoardRole", () => {
+  it("lets every user edit boards without an owner", () => {
+    expect(getBoardRole({}, guest)).toBe("editor");
+  });
+
+  it("recognises the owner", () => {
+    expect(getBoardRole({ ownerId: owner.id }, owner)).toBe("owner");
+  });
+
+  it("matches members by normalized email", () => {
+    const board = { ownerId: owner.id, members: [{ email: "guest@example.com", role: "viewer" as const }] };
+    expect(getBoardRole(board, guest)).toBe("viewer");
+  });
+
+  it("ignores expired members", () => {
+    const board = {
+      ownerId: owner.id,
+      members: [{ email: "guest@example.com", role: "editor" as const, expiresAt: EARLIER }],
+    };
+    expect(getBoardRole(board, guest)).toBeNull();
+    expect(getBoardRole({ ...board, members: [{ ...board.members[0], expiresAt: LATER }] }, guest)).toBe("editor");
+  });
+
+  it("gives strangers no access", () => {
+    expect(getBoardRole({ ownerId: owner.id, members: [] }, guest)).toBeNull();
+  });
+});
+
+describe("hasBoardRole", () => {
+  it("ranks owner above editor above viewer", () => {
+    expect(hasBoardRole("owner", "editor")).toBe(true);
+    expect(hasBoardRole("editor", "editor")).toBe(true);
+    expect(hasBoardRole("viewer", "editor")).toBe(false);
+    expect(hasBoardRole(null, "viewer")).toBe(false);
+  });
+});
+
+describe("canShareAs", () => {
+  it("only lets owners hand out edit links", () => {
+    expect(canShareAs("owner", "editor")).toBe(true);
+    expect(canShareAs("editor", "editor")).toBe(false);
+  });
+
+  it("lets editors hand out view links", () => {
+    expect(canShareAs("owner", "viewer")).toBe(true);
+    expect(canShareAs("editor", "viewer")).toBe(true);
+    expect(canShareAs("viewer", "viewer")).toBe(false);
+    expect(canShareAs(null, "viewer")).toBe(false);
+  });
+});
+
+describe("addLinkMember", () => {
+  const email = "guest@example.com";
+
+  it("adds a new member", () => {
+    const joining: BoardMember = { email, role: "viewer", expiresAt: LATER };
+    expect(addLinkMember([], joining)).toEqual([joining]);
+  });
+
+  it("never lowers a role", () => {
+    const members: BoardMember[] = [{ email, role: "editor" }];
+    expect(addLinkMember(members, { email, role: "viewer" })).toBe(members);
+  });
+
+  it("raises a role", () => {
+    const members: BoardMember[] = [{ email, role: "viewer" }];
+    expect(addLinkMember(members, { email, role: "editor", expiresAt: LATER })).toEqual([
+      { email, role: "editor", expiresAt: LATER },
+    ]);
+  });
+
+  it("only extends the expiry for the same role", () => {
+    const members: BoardMember[] = [{ email, role: "viewer", expiresAt: LATER }];
+    expect(addLinkMember(members, { email, role: "viewer", expiresAt: "2025-01-15T00:00:00.000Z" })).toBe(members);
+    expect(addLinkMember(members, { email, role: "viewer" })).toEqual([{ email, role: "viewer" }]);
+
+    const permanent: BoardMember[] = [{ email, role: "viewer" }];
+    expect(addLinkMember(permanent, { email, role: "viewer", expiresAt: LATER })).toBe(permanent);
+  });
+
+  it("replaces an expired membership", () => {
+    const members: BoardMember[] = [{ email, role: "editor", expiresAt: EARLIER }];
+    expect(addLinkMember(members, { email, role: "viewer", expiresAt: LATER })).toEqual([
+      { email, role: "viewer", expiresAt: LATER },
+    ]);
+  });
+
+  it("leaves other members alone", () => {
+    const other: BoardMember = { email: "other@example.com", role: "editor" };
+    expect(addLinkMember([other], { email, role: "viewer" })).toEqual([other, { email, role: "viewer" }]);
+  });
+});
@@ -0,0 +1,81 @@
+// -----------------------------------------------------------------------------
+// Board roles. Owners manage the board and its members, editors change its
+// content, viewers only look. Members are invited by email, since that is
+// known before the person first signs in, or join through a share link.
+// -----------------------------------------------------------------------------
+
+export type BoardRole = "owner" | "editor" | "viewer";
+export type MemberRole = Exclude<BoardRole, "owner">;
+
+export interface BoardMember {
+  email: string;
+  role: MemberRole;
+  // Set for people who joined through an expiring share link
+  expiresAt?: string;
+}
+
+export interface BoardAccessInfo {
+  // Boards created before sign-in existed have no owner
+  ownerId?: string;
+  members?: BoardMember[];
+  // Bumped to revoke every share link handed out so far
+  shareVersion?: number;
+}
+
+// What a share link grants, signed into its token
+export interface ShareLink {
+  roomId: string;
+  role: MemberRole;
+  version: number;
+  expiresAt?: string;
+}
+
+export const SHARE_LINK_EXPIRIES: { label: string; seconds: number | null }[] = [
+  { label: "Never", seconds: null },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+];
+
+export const MEMBER_ROLES: MemberRole[] = ["editor", "viewer"];
+
+const ROLE_RANK: Record<BoardRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const isActiveMember = (member: BoardMember) =>
+  !member.expiresAt || new Date(member.expiresAt).getTime() > Date.now();
+
+// The user's role on the board, or null without access. Boards without an
+// owner stay open to every signed-in user as an editor, as they were before.
+export const getBoardRole = (
+  board: BoardAccessInfo,
+  user: { id: string; email: string }
+): BoardRole | null => {
+  if (!board.ownerId) return "editor";
+  if (board.ownerId === user.id) return "owner";
+  const email = normalizeEmail(user.email);
+  return board.members?.find((member) => member.email === email && isActiveMember(member))?.role ?? null;
+};
+
+export const hasBoardRole = (role: BoardRole | null, minimum: BoardRole) =>
+  role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+// Owners hand out view and edit links, editors only view links
+export const canShareAs = (role: BoardRole | null, linkRole: MemberRole) =>
+  hasBoardRole(role, linkRole === "editor" ? "owner" : "editor");
+
+// Members after someone joins with `joining` through a share link. A link
+// never takes access away: a lower role is ignored and the same role only
+// extends how long it lasts.
+export const addLinkMember = (members: BoardMember[], joining: BoardMember): BoardMember[] => {
+  const existing = members.find((member) => member.email === joining.email && isActiveMember(member));
+  if (existing) {
+    if (ROLE_RANK[existing.role] > ROLE_RANK[joining.role]) return members;
+    if (existing.role === joining.role) {
+      const lastsLonger = existing.expiresAt && (!joining.expiresAt || joining.expiresAt > existing.expiresAt);
+      if (!lastsLonger) return members;
+    }
+  }
+  return [...members.filter((member) => member.email !== joining.email), joining];
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  BOARD_DOCUMENT_FORMAT,
+  BOARD_SCHEMA_VERSION,
+  BoardDocumentError,
+  createBoardDocument,
+  parseBoardDocument,
+  parseBoardFile,
+} from "./board-document";
+
+const IMAGE_URL = "https://images.example.com/photo.png";
+
+const rectangle = {
+  id: "shape-1",
+  type: "rectangle",
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 50,
+  color: "#000000",
+  strokeWidth: 2,
+};
+
+const emptyContent = { images: [], shapes: [], lines: [], texts: [] };
+
+describe("board documents", () => {
+  it("round-trips a document it created", () => {
+    const doc = createBoardDocument(
+      { ...emptyContent, images: [{ id: "image-1", url: IMAGE_URL, x: 1, y: 2 }], shapes: [rectangle as never] },
+      "room-1"
+    );
+    expect(doc.format).toBe(BOARD_DOCUMENT_FORMAT);
+    expect(doc.schemaVersion).toBe(BOARD_SCHEMA_VERSION);
+    expect(parseBoardFile(JSON.stringify(doc))).toEqual(doc);
+  });
+
+  it("migrates version 1 backup state to the current version", () => {
+    const doc = parseBoardDocument({
+      images: [{ id: "image-1", url: IMAGE_URL, x: 0, y: 0 }],
+      shapes: [rectangle],
+      lines: [{ id: "line-1", points: [0, 0, 10, 10], color: "#000000", width: 2, tool: "pen" }],
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+
+    expect(doc.schemaVersion).toBe(BOARD_SCHEMA_VERSION);
+    expect(doc.exportedAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(doc.content.texts).toEqual([]);
+    expect(doc.content.lines[0]).not.toHaveProperty("tool");
+  });
+
+  it("migrates version 2 files without changing their content", () => {
+    const content = { ...emptyContent, shapes: [rectangle] };
+    const doc = parseBoardDocument({
+      format: BOARD_DOCUMENT_FORMAT,
+      schemaVersion: 2,
+      exportedAt: "2025-01-01T00:00:00.000Z",
+      content,
+    });
+    expect(doc.schemaVersion).toBe(BOARD_SCHEMA_VERSION);
+    expect(doc.content).toEqual(content);
+  });
+
+  it("keeps optional element metadata", () => {
+    const line = { id: "line-1", points: [0, 0, 5, 5], color: "#000", width: 2, pressures: [0.2, 0.8], locked: true };
+    const doc = parseBoardDocument(createBoardDocument({ ...emptyContent, lines: [line] }));
+    expect(doc.content.lines[0]).toEqual(line);
+  });
+
+  it("rejects files from newer versions of the app", () => {
+    expect(() =>
+      parseBoardDocument({ format: BOARD_DOCUMENT_FORMAT, schemaVersion: BOARD_SCHEMA_VERSION + 1, content: emptyContent })
+    ).toThrow(/only supports up to version/);
+  });
+
+  it("rejects anything that is not a board file", () => {
+    expect(() => parseBoardFile("{not json")).toThrow("Board file is not valid JSON");
+    expect(() => parseBoardDocument([])).toThrow(BoardDocumentError);
+    expect(() => parseBoardDocument({ hello: "world" })).toThrow("missing schemaVersion");
+    expect(() => parseBoardDocument({ format: "other", schemaVersion: BOARD_SCHEMA_VERSION, content: emptyContent }))
+      .toThrow(/format must be/);
+  });
+
+  it("points at the failing field", () => {
+    const doc = createBoardDocument({ ...emptyContent, shapes: [{ ...rectangle, type: "hexagon" } as never] });
+    expect(() => parseBoardDocument(doc)).toThrow("content.shapes[0].type must be one of");
+
+    const missing = createBoardDocument({ ...emptyContent, shapes: [{ ...rectangle, width: "wide" } as never] });
+    expect(() => parseBoardDocument(missing)).toThrow("content.shapes[0].width must be a number");
+  });
+
+  it("rejects duplicate ids within a list", () => {
+    const doc = createBoardDocument({ ...emptyContent, shapes: [rectangle, rectangle] as never[] });
+    expect(() => parseBoardDocument(doc)).toThrow('content.shapes[1].id "shape-1" is used more than once');
+  });
+
+  it("keeps image URLs from any source", () => {
+    // Pasted links are stored as-is; only server-side rendering filters them
+    const images = [
+      { id: "image-1", url: "http://elsewhere.example.com/photo.png", x: 0, y: 0 },
+      { id: "image-2", url: "data:image/png;base64,iVBORw0KGgo=", x: 0, y: 0 },
+    ];
+    expect(parseBoardDocument(createBoardDocument({ ...emptyContent, images })).content.images).toEqual(images);
+  });
+});
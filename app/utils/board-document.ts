@@ -0,0 +1,269 @@
+// -----------------------------------------------------------------------------
+// Versioned `.board.json` documents used to export a board and import it into
+// another room. See "Board files" in the README for the format.
+// -----------------------------------------------------------------------------
+
+import type { BoardState } from "@/app/liveblocks.config";
+import { CONNECTOR_ANCHORS, CONNECTOR_ROUTINGS } from "./connectors";
+
+export const BOARD_DOCUMENT_FORMAT = "newcanvas-board";
+// Bump this, with a migration below, whenever the content shape changes. That
+// includes new optional fields, which older readers would otherwise drop.
+export const BOARD_SCHEMA_VERSION = 3;
+export const BOARD_FILE_EXTENSION = ".board.json";
+
+export interface BoardDocumentContent {
+  images: BoardState["images"];
+  shapes: BoardState["shapes"];
+  lines: BoardState["lines"];
+  texts: BoardState["texts"];
+}
+
+export interface BoardDocument {
+  format: typeof BOARD_DOCUMENT_FORMAT;
+  schemaVersion: typeof BOARD_SCHEMA_VERSION;
+  exportedAt: string;
+  roomId?: string;
+  content: BoardDocumentContent;
+}
+
+export class BoardDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BoardDocumentError";
+  }
+}
+
+export const createBoardDocument = (
+  content: BoardDocumentContent,
+  roomId?: string
+): BoardDocument => ({
+  format: BOARD_DOCUMENT_FORMAT,
+  schemaVersion: BOARD_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  roomId,
+  content,
+});
+
+// -----------------------------------------------------------------------------
+// Migrations: each entry upgrades a document from `version` to `version + 1`
+// -----------------------------------------------------------------------------
+
+type RawDocument = Record<string, unknown>;
+
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // Version 1 is the bare CanvasState written by room backups:
+  // { images, shapes, lines, createdAt }, without text elements.
+  1: (doc) => ({
+    format: BOARD_DOCUMENT_FORMAT,
+    schemaVersion: 2,
+    exportedAt: typeof doc.createdAt === "string" ? doc.createdAt : new Date().toISOString(),
+    content: {
+      images: doc.images,
+      shapes: doc.shapes,
+      lines: Array.isArray(doc.lines)
+        // Older states kept the Konva tool name on every line
+        ? doc.lines.map((line) => {
+            if (!line || typeof line !== "object") return line;
+            const rest = { ...(line as RawDocument) };
+            delete rest.tool;
+            return rest;
+          })
+        : doc.lines,
+      texts: Array.isArray(doc.texts) ? doc.texts : [],
+    },
+  }),
+  // Version 3 adds optional fields only: element names, stacking order,
+  // groups, locked and hidden flags, connector bindings, labels and routing,
+  // and pen pressures. Version 2 files are valid version 3 files.
+  2: (doc) => ({ ...doc, schemaVersion: 3 }),
+};
+
+const getSchemaVersion = (doc: RawDocument) => {
+  if (doc.schemaVersion === undefined) {
+    if (Array.isArray(doc.images) || Array.isArray(doc.shapes) || Array.isArray(doc.lines)) {
+      return 1;
+    }
+    throw new BoardDocumentError("Not a board file: missing schemaVersion");
+  }
+  if (typeof doc.schemaVersion !== "number" || !Number.isInteger(doc.schemaVersion) || doc.schemaVersion < 1) {
+    throw new BoardDocumentError(`Invalid schemaVersion "${String(doc.schemaVersion)}"`);
+  }
+  if (doc.schemaVersion > BOARD_SCHEMA_VERSION) {
+    throw new BoardDocumentError(
+      `This board file uses schema version ${doc.schemaVersion}, but this app only supports up to version ${BOARD_SCHEMA_VERSION}`
+    );
+  }
+  return doc.schemaVersion;
+};
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+type FieldType = "string" | "number" | "boolean" | "number[]" | "string[]";
+
+interface ElementSchema {
+  required: Record<string, FieldType>;
+  optional?: Record<string, FieldType>;
+  enums?: Record<string, readonly string[]>;
+}
+
+const SHAPE_TYPES = ["rectangle", "circle", "line", "arrow", "star", "triangle"] as const;
+const TEXT_TYPES = ["text", "sticky"] as const;
+
+// Optional fields every element kind shares, see ElementMeta
+const META_FIELDS: Record<string, FieldType> = {
+  name: "string",
+  zIndex: "number",
+  groupIds: "string[]",
+  locked: "boolean",
+  hidden: "boolean",
+};
+
+const ELEMENT_SCHEMAS: Record<keyof BoardDocumentContent, ElementSchema> = {
+  images: {
+    required: { id: "string", url: "string", x: "number", y: "number" },
+    optional: { width: "number", height: "number", rotation: "number", ...META_FIELDS },
+  },
+  shapes: {
+    required: {
+      id: "string",
+      type: "string",
+      x: "number",
+      y: "number",
+      width: "number",
+      height: "number",
+      color: "string",
+      strokeWidth: "number",
+    },
+    optional: {
+      points: "number[]",
+      rotation: "number",
+      fill: "string",
+      opacity: "number",
+      dash: "number[]",
+      fromId: "string",
+      fromAnchor: "string",
+      toId: "string",
+      toAnchor: "string",
+      routing: "string",
+      label: "string",
+      ...META_FIELDS,
+    },
+    enums: {
+      type: SHAPE_TYPES,
+      fromAnchor: CONNECTOR_ANCHORS,
+      toAnchor: CONNECTOR_ANCHORS,
+      routing: CONNECTOR_ROUTINGS,
+    },
+  },
+  lines: {
+    required: { id: "string", points: "number[]", color: "string", width: "number" },
+    optional: { opacity: "number", dash: "number[]", pressures: "number[]", ...META_FIELDS },
+  },
+  texts: {
+    required: {
+      id: "string",
+      type: "string",
+      x: "number",
+      y: "number",
+      width: "number",
+      height: "number",
+      text: "string",
+      fontSize: "number",
+      color: "string",
+    },
+    optional: { fill: "string", ...META_FIELDS },
+    enums: { type: TEXT_TYPES },
+  },
+};
+
+const matchesType = (value: unknown, type: FieldType) => {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "number[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "number" && Number.isFinite(item));
+    case "string[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+  }
+};
+
+const validateElements = (key: keyof BoardDocumentContent, value: unknown) => {
+  if (!Array.isArray(value)) {
+    throw new BoardDocumentError(`content.${key} must be an array`);
+  }
+  const schema = ELEMENT_SCHEMAS[key];
+  const ids = new Set<string>();
+
+  value.forEach((element, index) => {
+    const path = `content.${key}[${index}]`;
+    if (!element || typeof element !== "object" || Array.isArray(element)) {
+      throw new BoardDocumentError(`${path} must be an object`);
+    }
+    const item = element as RawDocument;
+
+    Object.entries(schema.required).forEach(([field, type]) => {
+      if (!matchesType(item[field], type)) {
+        throw new BoardDocumentError(`${path}.${field} must be a ${type}`);
+      }
+    });
+    Object.entries(schema.optional ?? {}).forEach(([field, type]) => {
+      if (item[field] !== undefined && !matchesType(item[field], type)) {
+        throw new BoardDocumentError(`${path}.${field} must be a ${type} when set`);
+      }
+    });
+    Object.entries(schema.enums ?? {}).forEach(([field, allowed]) => {
+      // Unset optional fields were already accepted above
+      if (item[field] === undefined && !(field in schema.required)) return;
+      if (!allowed.includes(item[field] as string)) {
+        throw new BoardDocumentError(`${path}.${field} must be one of ${allowed.join(", ")}`);
+      }
+    });
+
+    if (ids.has(item.id as string)) {
+      throw new BoardDocumentError(`${path}.id "${item.id}" is used more than once`);
+    }
+    ids.add(item.id as string);
+  });
+};
+
+// Validate a parsed board file, migrating older schema versions to the current one
+export const parseBoardDocument = (input: unknown): BoardDocument => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new BoardDocumentError("Not a board file: expected a JSON object");
+  }
+
+  let doc = input as RawDocument;
+  for (let version = getSchemaVersion(doc); version < BOARD_SCHEMA_VERSION; version++) {
+    doc = migrations[version](doc);
+  }
+
+  if (doc.format !== BOARD_DOCUMENT_FORMAT) {
+    throw new BoardDocumentError(`Not a board file: format must be "${BOARD_DOCUMENT_FORMAT}"`);
+  }
+  const content = doc.content as RawDocument | undefined;
+  if (!content || typeof content !== "object") {
+    throw new BoardDocumentError("Board file has no content");
+  }
+  (Object.keys(ELEMENT_SCHEMAS) as (keyof BoardDocumentContent)[]).forEach((key) => {
+    validateElements(key, content[key]);
+  });
+
+  return doc as unknown as BoardDocument;
+};
+
+export const parseBoardFile = (text: string): BoardDocument => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BoardDocumentError("Board file is not valid JSON");
+  }
+  return parseBoardDocument(json);
+};
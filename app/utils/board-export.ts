@@ -0,0 +1,441 @@
+// -----------------------------------------------------------------------------
+// Board export: turns stored board data into drawing primitives that can be
+// written as SVG or drawn onto any 2D canvas (browser or the `canvas` package).
+// -----------------------------------------------------------------------------
+
+import type { BoardState } from "@/app/liveblocks.config";
+import {
+  Bounds,
+  getPointsBounds,
+  getRectCorners,
+  getShapeOutline,
+} from "./canvas-geometry";
+import {
+  STICKY_FILL,
+  STICKY_PADDING,
+  TEXT_FONT_FAMILY,
+  TEXT_LINE_HEIGHT,
+  wrapTextLines,
+} from "./text-style";
+import { getOrderedElements } from "./z-order";
+import { CONNECTOR_LABEL_FONT_SIZE, getConnectorLabelPosition } from "./connectors";
+import { getStrokeOutline } from "./freehand";
+
+export type ExportFormat = "png" | "svg" | "pdf";
+export type ExportScope = "board" | "viewport" | "selection";
+
+export interface BoardContent {
+  images: BoardState["images"];
+  shapes: BoardState["shapes"];
+  lines: BoardState["lines"];
+  texts?: BoardState["texts"];
+}
+
+interface PrimitiveStyle {
+  stroke: string;
+  strokeWidth: number;
+  fill?: string;
+  opacity: number;
+  dash?: number[];
+}
+
+export type ExportPrimitive =
+  | { kind: "image"; id: string; url: string; x: number; y: number; width: number; height: number; rotation: number }
+  | { kind: "path"; id: string; points: number[]; closed: boolean; style: PrimitiveStyle }
+  | { kind: "circle"; id: string; cx: number; cy: number; radius: number; style: PrimitiveStyle }
+  | {
+      kind: "text";
+      id: string;
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      text: string;
+      fontSize: number;
+      color: string;
+      // Sticky notes draw a background and wrap inside their padding
+      sticky?: { fill: string };
+    };
+
+const DEFAULT_IMAGE_SIZE = 200;
+const MAX_PDF_PAGE_SIZE = 14400; // Largest page size PDF viewers accept, in points
+
+// Flatten board data into primitives in stacking order, bottom to top.
+// `imageSizes` supplies natural sizes for images without a stored size.
+export const getExportPrimitives = (
+  board: BoardContent,
+  options: {
+    ids?: string[];
+    imageSizes?: Map<string, { width: number; height: number }>;
+  } = {}
+): ExportPrimitive[] => {
+  // Hidden elements are never exported
+  const include = (element: { id: string; hidden?: boolean }) =>
+    !element.hidden && (!options.ids || options.ids.includes(element.id));
+  const primitives: ExportPrimitive[] = [];
+
+  board.images.forEach((img) => {
+    if (!include(img) || !img.url) return;
+    const natural = options.imageSizes?.get(img.id);
+    primitives.push({
+      kind: "image",
+      id: img.id,
+      url: img.url,
+      x: img.x,
+      y: img.y,
+      width: img.width ?? natural?.width ?? DEFAULT_IMAGE_SIZE,
+      height: img.height ?? natural?.height ?? DEFAULT_IMAGE_SIZE,
+      rotation: img.rotation || 0,
+    });
+  });
+
+  board.lines.forEach((line) => {
+    if (!include(line)) return;
+    if (line.pressures) {
+      // Pressure strokes are exported as their filled outline
+      primitives.push({
+        kind: "path",
+        id: line.id,
+        points: getStrokeOutline(line, line.width),
+        closed: true,
+        style: { stroke: line.color, strokeWidth: 1, fill: line.color, opacity: line.opacity ?? 1 },
+      });
+      return;
+    }
+    primitives.push({
+      kind: "path",
+      id: line.id,
+      points: line.points,
+      closed: false,
+      style: {
+        stroke: line.color,
+        strokeWidth: line.width,
+        opacity: line.opacity ?? 1,
+        dash: line.dash,
+      },
+    });
+  });
+
+  board.shapes.forEach((shape) => {
+    if (!include(shape)) return;
+    const style = {
+      stroke: shape.color,
+      strokeWidth: shape.strokeWidth,
+      fill: shape.type === "line" || shape.type === "arrow" ? undefined : shape.fill,
+      opacity: shape.opacity ?? 1,
+      dash: shape.dash,
+    };
+    if (shape.type === "circle") {
+      primitives.push({
+        kind: "circle",
+        id: shape.id,
+        cx: shape.x,
+        cy: shape.y,
+        radius: Math.abs(shape.width / 2),
+        style,
+      });
+      return;
+    }
+    primitives.push({
+      kind: "path",
+      id: shape.id,
+      points: getShapeOutline(shape),
+      closed: shape.type !== "line" && shape.type !== "arrow",
+      style,
+    });
+    if (shape.label) {
+      // Connector labels sit on a white box centered on the route
+      const center = getConnectorLabelPosition(shape);
+      const width = approximateTextWidth(CONNECTOR_LABEL_FONT_SIZE)(shape.label) + STICKY_PADDING * 2 + 1;
+      const height = CONNECTOR_LABEL_FONT_SIZE * TEXT_LINE_HEIGHT + STICKY_PADDING * 2;
+      primitives.push({
+        kind: "text",
+        id: shape.id,
+        x: center.x - width / 2,
+        y: center.y - height / 2,
+        width,
+        height,
+        text: shape.label,
+        fontSize: CONNECTOR_LABEL_FONT_SIZE,
+        color: shape.color,
+        sticky: { fill: "#FFFFFF" },
+      });
+    }
+  });
+
+  (board.texts ?? []).forEach((text) => {
+    if (!include(text)) return;
+    primitives.push({
+      kind: "text",
+      id: text.id,
+      x: text.x,
+      y: text.y,
+      width: text.width,
+      height: text.height,
+      text: text.text,
+      fontSize: text.fontSize,
+      color: text.color,
+      sticky: text.type === "sticky" ? { fill: text.fill || STICKY_FILL } : undefined,
+    });
+  });
+
+  const order = new Map(getOrderedElements(board).map(({ element }, index) => [element.id, index]));
+  return primitives.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+};
+
+export const getPrimitivesBounds = (primitives: ExportPrimitive[], padding = 20): Bounds | null => {
+  const points: number[] = [];
+  primitives.forEach((primitive) => {
+    switch (primitive.kind) {
+      case "image":
+        points.push(...getRectCorners(primitive.x, primitive.y, primitive.width, primitive.height, primitive.rotation));
+        break;
+      case "path": {
+        const half = primitive.style.strokeWidth / 2;
+        const bounds = getPointsBounds(primitive.points);
+        points.push(bounds.x - half, bounds.y - half, bounds.x + bounds.width + half, bounds.y + bounds.height + half);
+        break;
+      }
+      case "circle": {
+        const reach = primitive.radius + primitive.style.strokeWidth / 2;
+        points.push(primitive.cx - reach, primitive.cy - reach, primitive.cx + reach, primitive.cy + reach);
+        break;
+      }
+      case "text":
+        points.push(primitive.x, primitive.y, primitive.x + primitive.width, primitive.y + primitive.height);
+        break;
+    }
+  });
+  if (points.length === 0) return null;
+
+  const bounds = getPointsBounds(points);
+  return {
+    x: bounds.x - padding,
+    y: bounds.y - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
+  };
+};
+
+// -----------------------------------------------------------------------------
+// SVG
+// -----------------------------------------------------------------------------
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// SVG has no text measuring, so wrap using an average glyph width
+const approximateTextWidth = (fontSize: number) => (value: string) => value.length * fontSize * 0.55;
+
+const svgStyle = (style: PrimitiveStyle) => [
+  `stroke="${escapeXml(style.stroke)}"`,
+  `stroke-width="${style.strokeWidth}"`,
+  `fill="${style.fill && style.fill !== "transparent" ? escapeXml(style.fill) : "none"}"`,
+  `opacity="${style.opacity}"`,
+  `stroke-linecap="round"`,
+  `stroke-linejoin="round"`,
+  style.dash && style.dash.length > 0 ? `stroke-dasharray="${style.dash.join(" ")}"` : "",
+].filter(Boolean).join(" ");
+
+export const buildBoardSvg = (
+  primitives: ExportPrimitive[],
+  bounds: Bounds,
+  background = "#ffffff"
+) => {
+  const elements = primitives.map((primitive) => {
+    switch (primitive.kind) {
+      case "image": {
+        const transform = primitive.rotation
+          ? ` transform="rotate(${primitive.rotation} ${primitive.x} ${primitive.y})"`
+          : "";
+        return `<image href="${escapeXml(primitive.url)}" x="${primitive.x}" y="${primitive.y}" width="${primitive.width}" height="${primitive.height}" preserveAspectRatio="none"${transform} />`;
+      }
+      case "path": {
+        const coords: string[] = [];
+        for (let i = 0; i < primitive.points.length; i += 2) {
+          coords.push(`${primitive.points[i]},${primitive.points[i + 1]}`);
+        }
+        const tag = primitive.closed ? "polygon" : "polyline";
+        return `<${tag} points="${coords.join(" ")}" ${svgStyle(primitive.style)} />`;
+      }
+      case "circle":
+        return `<circle cx="${primitive.cx}" cy="${primitive.cy}" r="${primitive.radius}" ${svgStyle(primitive.style)} />`;
+      case "text": {
+        const padding = primitive.sticky ? STICKY_PADDING : 0;
+        const lines = wrapTextLines(
+          primitive.text,
+          primitive.sticky ? primitive.width - padding * 2 : undefined,
+          approximateTextWidth(primitive.fontSize)
+        );
+        const lineHeight = primitive.fontSize * TEXT_LINE_HEIGHT;
+        const background = primitive.sticky
+          ? `<rect x="${primitive.x}" y="${primitive.y}" width="${primitive.width}" height="${primitive.height}" rx="4" fill="${escapeXml(primitive.sticky.fill)}" />`
+          : "";
+        const spans = lines.map((line, index) =>
+          `<tspan x="${primitive.x + padding}" y="${primitive.y + padding + lineHeight * index + primitive.fontSize}">${escapeXml(line)}</tspan>`
+        ).join("");
+        return `${background}<text font-family="${TEXT_FONT_FAMILY}" font-size="${primitive.fontSize}" fill="${escapeXml(primitive.color)}" xml:space="preserve">${spans}</text>`;
+      }
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${bounds.width}" height="${bounds.height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}">`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${background}" />`,
+    ...elements,
+    `</svg>`,
+  ].join("\n");
+};
+
+// -----------------------------------------------------------------------------
+// 2D canvas
+// -----------------------------------------------------------------------------
+
+const applyStyle = (ctx: CanvasRenderingContext2D, style: PrimitiveStyle) => {
+  ctx.globalAlpha = style.opacity;
+  ctx.setLineDash(style.dash ?? []);
+  ctx.lineWidth = style.strokeWidth;
+  ctx.strokeStyle = style.stroke;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  if (style.fill && style.fill !== "transparent") {
+    ctx.fillStyle = style.fill;
+    ctx.fill();
+  }
+  ctx.stroke();
+};
+
+// Draw primitives so that `bounds` fills the context at the given scale.
+// `images` holds the loaded image sources keyed by url; missing ones are skipped.
+export const drawBoardToContext = (
+  ctx: CanvasRenderingContext2D,
+  primitives: ExportPrimitive[],
+  bounds: Bounds,
+  scale: number,
+  images: Map<string, CanvasImageSource>,
+  background = "#ffffff"
+) => {
+  ctx.save();
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, bounds.width * scale, bounds.height * scale);
+  ctx.scale(scale, scale);
+  ctx.translate(-bounds.x, -bounds.y);
+
+  primitives.forEach((primitive) => {
+    ctx.save();
+    switch (primitive.kind) {
+      case "image": {
+        const source = images.get(primitive.url);
+        if (!source) break;
+        ctx.translate(primitive.x, primitive.y);
+        ctx.rotate((primitive.rotation * Math.PI) / 180);
+        ctx.drawImage(source, 0, 0, primitive.width, primitive.height);
+        break;
+      }
+      case "path":
+        ctx.beginPath();
+        for (let i = 0; i < primitive.points.length; i += 2) {
+          if (i === 0) ctx.moveTo(primitive.points[i], primitive.points[i + 1]);
+          else ctx.lineTo(primitive.points[i], primitive.points[i + 1]);
+        }
+        if (primitive.closed) ctx.closePath();
+        applyStyle(ctx, primitive.style);
+        break;
+      case "circle":
+        ctx.beginPath();
+        ctx.arc(primitive.cx, primitive.cy, primitive.radius, 0, Math.PI * 2);
+        applyStyle(ctx, primitive.style);
+        break;
+      case "text": {
+        const padding = primitive.sticky ? STICKY_PADDING : 0;
+        if (primitive.sticky) {
+          ctx.fillStyle = primitive.sticky.fill;
+          ctx.fillRect(primitive.x, primitive.y, primitive.width, primitive.height);
+        }
+        ctx.font = `${primitive.fontSize}px ${TEXT_FONT_FAMILY}`;
+        ctx.fillStyle = primitive.color;
+        ctx.textBaseline = "top";
+        const lines = wrapTextLines(
+          primitive.text,
+          primitive.sticky ? primitive.width - padding * 2 : undefined,
+          (value) => ctx.measureText(value).width
+        );
+        const lineHeight = primitive.fontSize * TEXT_LINE_HEIGHT;
+        lines.forEach((line, index) => {
+          ctx.fillText(line, primitive.x + padding, primitive.y + padding + lineHeight * index);
+        });
+        break;
+      }
+    }
+    ctx.restore();
+  });
+
+  ctx.restore();
+};
+
+// -----------------------------------------------------------------------------
+// PDF
+// -----------------------------------------------------------------------------
+
+// Fit a board area onto a single PDF page, one point per canvas unit
+export const getPdfPageSize = (bounds: Bounds) => {
+  const fit = Math.min(1, MAX_PDF_PAGE_SIZE / Math.max(bounds.width, bounds.height));
+  return { width: bounds.width * fit, height: bounds.height * fit };
+};
+
+// Minimal single page PDF that shows one JPEG image over the whole page
+export const createImagePdf = (
+  jpeg: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  pageWidth: number,
+  pageHeight: number
+) => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = () => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n`);
+  };
+
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  write("%PDF-1.4\n");
+  startObject();
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+  startObject();
+  write("<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n");
+  startObject();
+  write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n`);
+  startObject();
+  write(`<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+  write(jpeg);
+  write("\nendstream\nendobj\n");
+  startObject();
+  write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, "0")} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
@@ -0,0 +1,105 @@
+import { createCanvas, loadImage, Image } from "canvas";
+import {
+  BoardContent,
+  ExportFormat,
+  buildBoardSvg,
+  drawBoardToContext,
+  getExportPrimitives,
+  getPdfPageSize,
+  getPrimitivesBounds,
+} from "./board-export";
+import { Bounds } from "./canvas-geometry";
+import { isAllowedImageUrl } from "./image-sources";
+
+interface RenderOptions {
+  format: ExportFormat;
+  // Only render these element ids (selection export)
+  ids?: string[];
+  // Render this area instead of the content bounds (viewport export)
+  bounds?: Bounds;
+  pixelRatio?: number;
+  // Scale a PNG down (or up, within MAX_PIXEL_RATIO) to fit this size, e.g.
+  // for thumbnails. Takes precedence over pixelRatio.
+  fit?: { width: number; height: number };
+}
+
+const MAX_PIXEL_RATIO = 4;
+// Largest PNG we render, in pixels overall and per side. Larger areas are
+// rendered at a lower pixel ratio.
+export const MAX_EXPORT_PIXELS = 40_000_000;
+const MAX_EXPORT_SIDE = 16_384;
+
+// Load every image once. Images from sources we don't trust (see
+// image-sources) are never fetched; they and images that fail to load are
+// left out of the render.
+async function loadBoardImages(board: BoardContent) {
+  const loaded = new Map<string, Image>();
+  await Promise.all(
+    board.images
+      .filter((img) => img.url && !loaded.has(img.url) && isAllowedImageUrl(img.url))
+      .map(async (img) => {
+        try {
+          loaded.set(img.url, await loadImage(img.url));
+        } catch (error) {
+          console.error(`Error loading image ${img.url} for export:`, error);
+        }
+      })
+  );
+  return loaded;
+}
+
+// Render stored board data headlessly with the `canvas` package
+export async function renderBoard(
+  board: BoardContent,
+  options: RenderOptions
+): Promise<{ body: Buffer | string; contentType: string }> {
+  const images = await loadBoardImages(board);
+
+  const imageSizes = new Map<string, { width: number; height: number }>();
+  board.images.forEach((img) => {
+    const source = images.get(img.url);
+    if (source) imageSizes.set(img.id, { width: source.width, height: source.height });
+  });
+
+  const primitives = getExportPrimitives(board, { ids: options.ids, imageSizes });
+  const bounds = options.bounds ?? getPrimitivesBounds(primitives);
+  if (!bounds) {
+    throw new Error("Nothing to export");
+  }
+
+  if (options.format === "svg") {
+    return {
+      body: buildBoardSvg(primitives, bounds),
+      contentType: "image/svg+xml",
+    };
+  }
+
+  const sources = new Map<string, CanvasImageSource>(
+    Array.from(images.entries()).map(([url, image]) => [url, image as unknown as CanvasImageSource])
+  );
+
+  if (options.format === "pdf") {
+    const page = getPdfPageSize(bounds);
+    const canvas = createCanvas(page.width, page.height, "pdf");
+    const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+    drawBoardToContext(ctx, primitives, bounds, page.width / bounds.width, sources);
+    return { body: canvas.toBuffer("application/pdf"), contentType: "application/pdf" };
+  }
+
+  const requestedRatio = options.fit
+    ? Math.min(MAX_PIXEL_RATIO, options.fit.width / bounds.width, options.fit.height / bounds.height)
+    : Math.min(MAX_PIXEL_RATIO, Math.max(0.1, options.pixelRatio ?? 1));
+  const pixelRatio = Math.min(
+    requestedRatio,
+    Math.sqrt(MAX_EXPORT_PIXELS / (bounds.width * bounds.height)),
+    MAX_EXPORT_SIDE / bounds.width,
+    MAX_EXPORT_SIDE / bounds.height
+  );
+  const canvas = createCanvas(
+    Math.max(1, Math.ceil(bounds.width * pixelRatio)),
+    Math.max(1, Math.ceil(bounds.height * pixelRatio))
+  );
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+  drawBoardToContext(ctx, primitives, bounds, pixelRatio, sources);
+  return { body: canvas.toBuffer("image/png"), contentType: "image/png" };
+}
@@ -0,0 +1,131 @@
+// -----------------------------------------------------------------------------
+// Geometry helpers shared by hit-testing, bounding boxes and transforms.
+// Points are always flat [x1, y1, x2, y2, ...] arrays like Konva uses.
+// -----------------------------------------------------------------------------
+
+import { ShapeType } from "@/app/types/canvas";
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const rotatePoint = (
+  x: number,
+  y: number,
+  pivotX: number,
+  pivotY: number,
+  rotation: number
+) => {
+  if (!rotation) return { x, y };
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = x - pivotX;
+  const dy = y - pivotY;
+  return {
+    x: pivotX + dx * cos - dy * sin,
+    y: pivotY + dx * sin + dy * cos,
+  };
+};
+
+export const rotatePoints = (
+  points: number[],
+  pivotX: number,
+  pivotY: number,
+  rotation: number
+) => {
+  if (!rotation) return points;
+  const rotated: number[] = [];
+  for (let i = 0; i < points.length; i += 2) {
+    const p = rotatePoint(points[i], points[i + 1], pivotX, pivotY, rotation);
+    rotated.push(p.x, p.y);
+  }
+  return rotated;
+};
+
+// Axis-aligned bounds of a flat points array
+export const getPointsBounds = (points: number[]): Bounds => {
+  if (points.length < 2) return { x: 0, y: 0, width: 0, height: 0 };
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < points.length; i += 2) {
+    minX = Math.min(minX, points[i]);
+    maxX = Math.max(maxX, points[i]);
+    minY = Math.min(minY, points[i + 1]);
+    maxY = Math.max(maxY, points[i + 1]);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const getPointsCenter = (points: number[]) => {
+  const bounds = getPointsBounds(points);
+  return {
+    x: bounds.x + bounds.width / 2,
+    y: bounds.y + bounds.height / 2,
+  };
+};
+
+// Corners of a rect rotated around its (x, y) origin, the way Konva rotates
+// Rect and Image nodes.
+export const getRectCorners = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rotation = 0
+) => rotatePoints(
+  [x, y, x + width, y, x + width, y + height, x, y + height],
+  x,
+  y,
+  rotation
+);
+
+export const rectsIntersect = (a: Bounds, b: Bounds) =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+// The geometry fields every stored shape has
+interface ShapeGeometry {
+  type: ShapeType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  points?: number[];
+  rotation?: number;
+}
+
+// Shapes stored as a points array rotate around the center of their points
+export const isPointShape = (type: ShapeType) => {
+  return type === "line" || type === "arrow" || type === "star" || type === "triangle";
+};
+
+// Position of the Konva node that renders a shape, which is also its rotation pivot
+export const getShapeOrigin = (shape: ShapeGeometry) => {
+  if (isPointShape(shape.type) && shape.points) {
+    return getPointsCenter(shape.points);
+  }
+  return { x: shape.x, y: shape.y };
+};
+
+// World space outline of a shape with its rotation applied
+export const getShapeOutline = (shape: ShapeGeometry): number[] => {
+  const rotation = shape.rotation || 0;
+  if (shape.type === "rectangle") {
+    return getRectCorners(shape.x, shape.y, shape.width, shape.height, rotation);
+  }
+  if (shape.type === "circle") {
+    const radius = Math.abs(shape.width / 2);
+    return [shape.x - radius, shape.y - radius, shape.x + radius, shape.y + radius];
+  }
+  const points = shape.points || [];
+  const center = getPointsCenter(points);
+  return rotatePoints(points, center.x, center.y, rotation);
+};
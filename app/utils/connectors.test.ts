@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { ShapeElement } from "@/app/liveblocks.config";
+import {
+  detachConnectorEnds,
+  findAnchorAt,
+  getConnectableBounds,
+  remapConnectorEnds,
+  rerouteConnectors,
+  routeConnector,
+} from "./connectors";
+
+const rect = (id: string, x: number, y: number): ShapeElement =>
+  ({ id, type: "rectangle", x, y, width: 100, height: 50, color: "#000", strokeWidth: 1 });
+
+// A line from the right side of `a` to the left side of `b`, routed before `b` moved
+const connector: ShapeElement = {
+  id: "c",
+  type: "line",
+  x: 100,
+  y: 25,
+  width: 100,
+  height: 0,
+  color: "#000",
+  strokeWidth: 1,
+  points: [100, 25, 200, 25],
+  fromId: "a",
+  fromAnchor: "right",
+  toId: "b",
+  toAnchor: "left",
+};
+
+const board = (shapes: ShapeElement[]) => ({ images: [], lines: [], texts: [], shapes });
+
+describe("routeConnector", () => {
+  it("draws a straight segment between two ends", () => {
+    expect(routeConnector({ x: 0, y: 0 }, { x: 10, y: 20 }, "straight")).toEqual([0, 0, 10, 20]);
+  });
+
+  it("routes elbows through horizontal and vertical segments", () => {
+    expect(routeConnector({ x: 0, y: 0, anchor: "right" }, { x: 100, y: 50, anchor: "left" }, "elbow"))
+      .toEqual([0, 0, 50, 0, 50, 50, 100, 50]);
+    expect(routeConnector({ x: 0, y: 0, anchor: "bottom" }, { x: 100, y: 50, anchor: "left" }, "elbow"))
+      .toEqual([0, 0, 0, 50, 100, 50]);
+  });
+
+  it("stops center-bound ends at the element's edge", () => {
+    const bounds = { x: -10, y: -10, width: 20, height: 20 };
+    expect(routeConnector({ x: 0, y: 0, anchor: "center", bounds }, { x: 100, y: 0 }, "straight"))
+      .toEqual([10, 0, 100, 0]);
+  });
+
+  it("keeps two points for a zero-length route", () => {
+    expect(routeConnector({ x: 5, y: 5 }, { x: 5, y: 5 }, "straight")).toEqual([5, 5, 5, 5]);
+  });
+});
+
+describe("findAnchorAt", () => {
+  const targets = getConnectableBounds(board([rect("a", 0, 0)]));
+
+  it("snaps to the nearest anchor within the threshold", () => {
+    expect(findAnchorAt({ x: 98, y: 27 }, targets, 10)).toEqual({ id: "a", anchor: "right" });
+  });
+
+  it("binds to the center inside an element away from its anchors", () => {
+    expect(findAnchorAt({ x: 20, y: 10 }, targets, 5)).toEqual({ id: "a", anchor: "center" });
+  });
+
+  it("finds nothing outside every element", () => {
+    expect(findAnchorAt({ x: 500, y: 500 }, targets, 10)).toBeNull();
+  });
+});
+
+describe("rerouteConnectors", () => {
+  it("returns null when no connector moved", () => {
+    expect(rerouteConnectors(board([rect("a", 0, 0), rect("b", 200, 0), connector]))).toBeNull();
+  });
+
+  it("follows the elements a connector is bound to", () => {
+    const shapes = rerouteConnectors(board([rect("a", 0, 0), rect("b", 200, 100), connector]));
+    expect(shapes?.[2].points).toEqual([100, 25, 200, 125]);
+    expect(shapes?.[2]).toMatchObject({ x: 100, y: 25, width: 100, height: 100 });
+  });
+
+  it("releases ends bound to elements that no longer exist", () => {
+    const shapes = rerouteConnectors(board([rect("a", 0, 100), connector]));
+    expect(shapes?.[1]).not.toHaveProperty("toId");
+    expect(shapes?.[1]).not.toHaveProperty("toAnchor");
+    expect(shapes?.[1].points).toEqual([100, 125, 200, 25]);
+  });
+
+  it("leaves shapes that aren't connectors untouched", () => {
+    const a = rect("a", 0, 0);
+    const shapes = rerouteConnectors(board([a, rect("b", 200, 100), connector]));
+    expect(shapes?.[0]).toBe(a);
+  });
+});
+
+describe("detachConnectorEnds and remapConnectorEnds", () => {
+  it("releases ends bound to elements outside the given ids", () => {
+    expect(detachConnectorEnds(connector, ["a"])).toMatchObject({ fromId: "a", fromAnchor: "right" });
+    expect(detachConnectorEnds(connector, ["a"])).not.toHaveProperty("toId");
+  });
+
+  it("points copied connectors at the copies", () => {
+    const copy = remapConnectorEnds(connector, new Map([["a", "a-copy"], ["b", "b-copy"]]));
+    expect(copy).toMatchObject({ fromId: "a-copy", toId: "b-copy" });
+  });
+});
@@ -0,0 +1,322 @@
+// -----------------------------------------------------------------------------
+// Connectors: lines and arrows whose ends can be bound to an anchor (a side
+// midpoint or the center) of another element. Bound connectors are re-routed
+// whenever the board changes, so they follow the elements they connect.
+// The route is stored in `points` like any other line or arrow, which keeps
+// rendering, hit-testing and export unaware of bindings.
+// -----------------------------------------------------------------------------
+
+import type {
+  ConnectorAnchor,
+  ImageElement,
+  LineElement,
+  ShapeElement,
+  TextElement,
+} from "@/app/liveblocks.config";
+import { ShapeType } from "@/app/types/canvas";
+import { Bounds, getPointsBounds, getRectCorners, getShapeOutline } from "./canvas-geometry";
+
+export const CONNECTOR_ANCHORS: readonly ConnectorAnchor[] = ["top", "right", "bottom", "left", "center"];
+export const CONNECTOR_ROUTINGS = ["straight", "elbow"] as const;
+export const CONNECTOR_LABEL_FONT_SIZE = 14;
+
+const ARROW_HEAD_LENGTH = 20;
+const DEFAULT_IMAGE_SIZE = 200;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface ConnectorBoard {
+  images: readonly ImageElement[];
+  shapes: readonly ShapeElement[];
+  lines: readonly LineElement[];
+  texts?: readonly TextElement[];
+}
+
+type ConnectorEnds = Pick<ShapeElement, "fromId" | "fromAnchor" | "toId" | "toAnchor">;
+
+// One end of a route: where it is, and the element it leaves or enters
+interface RouteEnd extends Point {
+  anchor?: ConnectorAnchor;
+  bounds?: Bounds;
+}
+
+export const isConnectorType = (type: ShapeType) => type === "line" || type === "arrow";
+
+// Lines and arrows that have to be re-routed when the board changes
+const needsRouting = (shape: ShapeElement) =>
+  isConnectorType(shape.type) && Boolean(shape.fromId || shape.toId || shape.routing === "elbow");
+
+// Arrow points are the route followed by the two strokes of the head
+export const addArrowHead = (route: number[]) => {
+  const count = route.length;
+  const to = { x: route[count - 2], y: route[count - 1] };
+  const angle = Math.atan2(to.y - route[count - 3], to.x - route[count - 4]);
+  return [
+    ...route,
+    to.x - ARROW_HEAD_LENGTH * Math.cos(angle - Math.PI / 6),
+    to.y - ARROW_HEAD_LENGTH * Math.sin(angle - Math.PI / 6),
+    to.x, to.y,
+    to.x - ARROW_HEAD_LENGTH * Math.cos(angle + Math.PI / 6),
+    to.y - ARROW_HEAD_LENGTH * Math.sin(angle + Math.PI / 6),
+  ];
+};
+
+// The path of a line or arrow without the arrow head
+export const getRoutePoints = (shape: Pick<ShapeElement, "type" | "points">) => {
+  const points = shape.points ?? [];
+  return shape.type === "arrow" && points.length >= 10 ? points.slice(0, -6) : points;
+};
+
+export const getAnchorPoint = (bounds: Bounds, anchor: ConnectorAnchor): Point => {
+  switch (anchor) {
+    case "top":
+      return { x: bounds.x + bounds.width / 2, y: bounds.y };
+    case "right":
+      return { x: bounds.x + bounds.width, y: bounds.y + bounds.height / 2 };
+    case "bottom":
+      return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height };
+    case "left":
+      return { x: bounds.x, y: bounds.y + bounds.height / 2 };
+    default:
+      return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  }
+};
+
+// Bounds of every element a connector can attach to, in stacking order of
+// kinds. Pen strokes and other lines or arrows are not attachable.
+export const getConnectableBounds = (
+  board: ConnectorBoard,
+  imageSizes?: Map<string, { width: number; height: number }>
+) => {
+  const targets = new Map<string, Bounds>();
+  board.images.forEach((img) => {
+    const natural = imageSizes?.get(img.id);
+    targets.set(img.id, getPointsBounds(getRectCorners(
+      img.x,
+      img.y,
+      img.width ?? natural?.width ?? DEFAULT_IMAGE_SIZE,
+      img.height ?? natural?.height ?? DEFAULT_IMAGE_SIZE,
+      img.rotation
+    )));
+  });
+  board.shapes.forEach((shape) => {
+    if (!isConnectorType(shape.type)) {
+      targets.set(shape.id, getPointsBounds(getShapeOutline(shape)));
+    }
+  });
+  (board.texts ?? []).forEach((text) => {
+    targets.set(text.id, { x: text.x, y: text.y, width: text.width, height: text.height });
+  });
+  return targets;
+};
+
+// The anchor closest to `point` within `threshold`. A point inside an element
+// but away from its anchors binds to the center.
+export const findAnchorAt = (
+  point: Point,
+  targets: Map<string, Bounds>,
+  threshold: number
+): { id: string; anchor: ConnectorAnchor } | null => {
+  let best: { id: string; anchor: ConnectorAnchor; distance: number } | null = null;
+  let inside: { id: string; anchor: ConnectorAnchor } | null = null;
+
+  for (const [id, bounds] of targets) {
+    for (const anchor of CONNECTOR_ANCHORS) {
+      const anchorPoint = getAnchorPoint(bounds, anchor);
+      const distance = Math.hypot(anchorPoint.x - point.x, anchorPoint.y - point.y);
+      if (distance <= threshold && (!best || distance < best.distance)) {
+        best = { id, anchor, distance };
+      }
+    }
+    if (
+      point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+      point.y >= bounds.y && point.y <= bounds.y + bounds.height
+    ) {
+      inside = { id, anchor: "center" };
+    }
+  }
+
+  return best ? { id: best.id, anchor: best.anchor } : inside;
+};
+
+// Where the segment from `inner` (inside `bounds`) towards `outer` leaves
+// the bounds. Used so center-bound ends stop at the element's edge.
+const clipToBounds = (inner: Point, outer: Point, bounds: Bounds): Point => {
+  const dx = outer.x - inner.x;
+  const dy = outer.y - inner.y;
+  const exits = [
+    dx > 0 ? (bounds.x + bounds.width - inner.x) / dx : dx < 0 ? (bounds.x - inner.x) / dx : Infinity,
+    dy > 0 ? (bounds.y + bounds.height - inner.y) / dy : dy < 0 ? (bounds.y - inner.y) / dy : Infinity,
+  ];
+  const t = Math.min(1, Math.max(0, Math.min(...exits)));
+  return { x: inner.x + dx * t, y: inner.y + dy * t };
+};
+
+// Whether a route leaving (or entering) through this end runs horizontally
+const isHorizontalEnd = (end: RouteEnd, other: Point) => {
+  if (end.anchor === "left" || end.anchor === "right") return true;
+  if (end.anchor === "top" || end.anchor === "bottom") return false;
+  return Math.abs(other.x - end.x) >= Math.abs(other.y - end.y);
+};
+
+const removeRepeatedPoints = (points: Point[]) =>
+  points.filter((point, index) =>
+    index === 0 || point.x !== points[index - 1].x || point.y !== points[index - 1].y
+  );
+
+// Route between two ends: a straight segment, or horizontal and vertical
+// segments that leave and enter each element at a right angle
+export const routeConnector = (
+  start: RouteEnd,
+  end: RouteEnd,
+  routing: ShapeElement["routing"]
+): number[] => {
+  let route: Point[];
+  if (routing === "elbow") {
+    const startHorizontal = isHorizontalEnd(start, end);
+    const endHorizontal = end.anchor ? isHorizontalEnd(end, start) : startHorizontal;
+    if (startHorizontal && endHorizontal) {
+      const middleX = (start.x + end.x) / 2;
+      route = [start, { x: middleX, y: start.y }, { x: middleX, y: end.y }, end];
+    } else if (!startHorizontal && !endHorizontal) {
+      const middleY = (start.y + end.y) / 2;
+      route = [start, { x: start.x, y: middleY }, { x: end.x, y: middleY }, end];
+    } else if (startHorizontal) {
+      route = [start, { x: end.x, y: start.y }, end];
+    } else {
+      route = [start, { x: start.x, y: end.y }, end];
+    }
+  } else {
+    route = [start, end];
+  }
+
+  // Ends bound to a center stop at the element's edge
+  if (start.anchor === "center" && start.bounds && route.length > 1) {
+    route[0] = clipToBounds(start, route[1], start.bounds);
+  }
+  const last = route.length - 1;
+  if (end.anchor === "center" && end.bounds && last > 0) {
+    route[last] = clipToBounds(end, route[last - 1], end.bounds);
+  }
+
+  const points = removeRepeatedPoints(route);
+  // A zero-length route still needs two points to draw
+  return (points.length > 1 ? points : [points[0], points[0]]).flatMap(({ x, y }) => [x, y]);
+};
+
+// Recompute a line or arrow from its bindings and routing. Ends bound to
+// elements that no longer exist are released where they were.
+export const layoutConnector = (shape: ShapeElement, targets: Map<string, Bounds>): ShapeElement => {
+  const route = getRoutePoints(shape);
+  const resolveEnd = (
+    id: string | undefined,
+    anchor: ConnectorAnchor | undefined,
+    fallback: Point
+  ): RouteEnd => {
+    const bounds = id ? targets.get(id) : undefined;
+    if (!bounds) return fallback;
+    const boundAnchor = anchor ?? "center";
+    return { ...getAnchorPoint(bounds, boundAnchor), anchor: boundAnchor, bounds };
+  };
+  const start = resolveEnd(shape.fromId, shape.fromAnchor, { x: route[0] ?? shape.x, y: route[1] ?? shape.y });
+  const end = resolveEnd(shape.toId, shape.toAnchor, {
+    x: route[route.length - 2] ?? shape.x,
+    y: route[route.length - 1] ?? shape.y,
+  });
+
+  const next = { ...shape };
+  if (shape.fromId && !targets.has(shape.fromId)) {
+    delete next.fromId;
+    delete next.fromAnchor;
+  }
+  if (shape.toId && !targets.has(shape.toId)) {
+    delete next.toId;
+    delete next.toAnchor;
+  }
+  delete next.rotation;
+
+  const points = routeConnector(start, end, shape.routing);
+  return {
+    ...next,
+    x: points[0],
+    y: points[1],
+    width: points[points.length - 2] - points[0],
+    height: points[points.length - 1] - points[1],
+    points: shape.type === "arrow" ? addArrowHead(points) : points,
+  };
+};
+
+const isSameRoute = (a: ShapeElement, b: ShapeElement) =>
+  a.fromId === b.fromId &&
+  a.toId === b.toId &&
+  a.rotation === b.rotation &&
+  (a.points ?? []).length === (b.points ?? []).length &&
+  (a.points ?? []).every((value, index) => Math.abs(value - b.points![index]) < 1e-6);
+
+// The shapes list with every bound or elbow connector re-routed, or null when
+// no connector moved
+export const rerouteConnectors = (
+  board: ConnectorBoard,
+  imageSizes?: Map<string, { width: number; height: number }>
+): ShapeElement[] | null => {
+  if (!board.shapes.some(needsRouting)) return null;
+  const targets = getConnectableBounds(board, imageSizes);
+  let hasChanges = false;
+  const shapes = board.shapes.map((shape) => {
+    if (!needsRouting(shape)) return shape;
+    const next = layoutConnector(shape, targets);
+    if (isSameRoute(shape, next)) return shape;
+    hasChanges = true;
+    return next;
+  });
+  return hasChanges ? shapes : null;
+};
+
+// Release the ends of a connector that are bound to elements outside
+// `attachedIds`. Used when a connector is moved or reshaped on its own.
+export const detachConnectorEnds = <T extends ConnectorEnds>(shape: T, attachedIds: string[]): T => {
+  const next = { ...shape };
+  if (next.fromId && !attachedIds.includes(next.fromId)) {
+    delete next.fromId;
+    delete next.fromAnchor;
+  }
+  if (next.toId && !attachedIds.includes(next.toId)) {
+    delete next.toId;
+    delete next.toAnchor;
+  }
+  return next;
+};
+
+// Point copied connectors at the copies of their elements. Ends bound to
+// elements that weren't copied are released.
+export const remapConnectorEnds = <T extends ConnectorEnds>(shape: T, idMap: Map<string, string>): T => {
+  const next = detachConnectorEnds(shape, [...idMap.keys()]);
+  if (next.fromId) next.fromId = idMap.get(next.fromId);
+  if (next.toId) next.toId = idMap.get(next.toId);
+  return next;
+};
+
+// Halfway along the route, where the label sits
+export const getConnectorLabelPosition = (shape: Pick<ShapeElement, "type" | "points">): Point => {
+  const route = getRoutePoints(shape);
+  const lengths: number[] = [];
+  for (let i = 2; i < route.length; i += 2) {
+    lengths.push(Math.hypot(route[i] - route[i - 2], route[i + 1] - route[i - 1]));
+  }
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+  for (let segment = 0; segment < lengths.length; segment++) {
+    if (remaining <= lengths[segment] && lengths[segment] > 0) {
+      const t = remaining / lengths[segment];
+      const i = segment * 2;
+      return {
+        x: route[i] + (route[i + 2] - route[i]) * t,
+        y: route[i + 1] + (route[i + 3] - route[i + 1]) * t,
+      };
+    }
+    remaining -= lengths[segment];
+  }
+  return { x: route[0] ?? 0, y: route[1] ?? 0 };
+};
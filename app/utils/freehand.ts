@@ -0,0 +1,165 @@
+// -----------------------------------------------------------------------------
+// Freehand strokes: smoothing and simplification applied when a stroke is
+// finished, the variable-width outline used to draw pressure strokes, and the
+// eraser that cuts strokes apart. Points are flat [x1, y1, x2, y2, ...] arrays;
+// `pressures`, when present, holds one value in 0..1 per point.
+// -----------------------------------------------------------------------------
+
+export interface Stroke {
+  points: number[];
+  pressures?: number[];
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Thinnest part of a pressure stroke, as a share of its full width
+const MIN_PRESSURE_WIDTH = 0.25;
+
+const getPoint = (points: number[], index: number): Point => ({
+  x: points[index * 2],
+  y: points[index * 2 + 1],
+});
+
+const distanceToSegment = (point: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t));
+};
+
+const segmentsCross = (a: Point, b: Point, c: Point, d: Point) => {
+  const side = (p: Point, q: Point, r: Point) => (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  return side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0;
+};
+
+const distanceBetweenSegments = (a: Point, b: Point, c: Point, d: Point) =>
+  segmentsCross(a, b, c, d)
+    ? 0
+    : Math.min(
+        distanceToSegment(a, c, d),
+        distanceToSegment(b, c, d),
+        distanceToSegment(c, a, b),
+        distanceToSegment(d, a, b)
+      );
+
+// Weighted average with both neighbours; the ends stay where they were drawn
+export const smoothStroke = ({ points, pressures }: Stroke, passes = 2): Stroke => {
+  let nextPoints = points;
+  let nextPressures = pressures;
+  const count = points.length / 2;
+  if (count < 3) return { points, pressures };
+
+  for (let pass = 0; pass < passes; pass++) {
+    const source = nextPoints;
+    nextPoints = source.map((value, index) => {
+      const point = Math.floor(index / 2);
+      if (point === 0 || point === count - 1) return value;
+      return (source[index - 2] + value * 2 + source[index + 2]) / 4;
+    });
+    if (nextPressures) {
+      const sourcePressures = nextPressures;
+      nextPressures = sourcePressures.map((value, index) =>
+        index === 0 || index === count - 1
+          ? value
+          : (sourcePressures[index - 1] + value * 2 + sourcePressures[index + 1]) / 4
+      );
+    }
+  }
+  return { points: nextPoints, pressures: nextPressures };
+};
+
+// Drop points that stay within `tolerance` of the simplified line
+// (Ramer-Douglas-Peucker). Pressures follow the points that are kept.
+export const simplifyStroke = ({ points, pressures }: Stroke, tolerance: number): Stroke => {
+  const count = points.length / 2;
+  if (count < 3) return { points, pressures };
+
+  const keep = new Array<boolean>(count).fill(false);
+  keep[0] = true;
+  keep[count - 1] = true;
+  const ranges: [number, number][] = [[0, count - 1]];
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop()!;
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let index = start + 1; index < end; index++) {
+      const distance = distanceToSegment(getPoint(points, index), getPoint(points, start), getPoint(points, end));
+      if (distance > farthestDistance) {
+        farthest = index;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([start, farthest], [farthest, end]);
+    }
+  }
+
+  return {
+    points: points.filter((_, index) => keep[Math.floor(index / 2)]),
+    pressures: pressures?.filter((_, index) => keep[index]),
+  };
+};
+
+// Closed outline of a stroke whose width follows the pen pressure
+export const getStrokeOutline = ({ points, pressures }: Stroke, width: number) => {
+  const count = points.length / 2;
+  const left: number[] = [];
+  const right: number[] = [];
+  for (let index = 0; index < count; index++) {
+    const point = getPoint(points, index);
+    const previous = getPoint(points, Math.max(0, index - 1));
+    const next = getPoint(points, Math.min(count - 1, index + 1));
+    const length = Math.hypot(next.x - previous.x, next.y - previous.y) || 1;
+    const pressure = pressures?.[index] ?? 0.5;
+    const half = (width * (MIN_PRESSURE_WIDTH + (1 - MIN_PRESSURE_WIDTH) * pressure)) / 2;
+    const normalX = (-(next.y - previous.y) / length) * half;
+    const normalY = ((next.x - previous.x) / length) * half;
+    left.push(point.x + normalX, point.y + normalY);
+    right.unshift(point.x - normalX, point.y - normalY);
+  }
+  return [...left, ...right];
+};
+
+// Erase where the eraser moved from `from` to `to`. Points under the eraser
+// are removed and strokes are cut where the eraser crosses them. Returns the
+// pieces that are left (possibly none), or null when the stroke wasn't touched.
+export const eraseStroke = (stroke: Stroke, from: Point, to: Point, radius: number): Stroke[] | null => {
+  const { points, pressures } = stroke;
+  const count = points.length / 2;
+  const erased = Array.from({ length: count }, (_, index) =>
+    distanceToSegment(getPoint(points, index), from, to) <= radius
+  );
+  const cut = Array.from({ length: Math.max(0, count - 1) }, (_, index) =>
+    distanceBetweenSegments(getPoint(points, index), getPoint(points, index + 1), from, to) <= radius
+  );
+  if (!erased.includes(true) && !cut.includes(true)) return null;
+
+  const pieces: Stroke[] = [];
+  let current: number[] = [];
+  const flush = () => {
+    if (current.length >= 2) {
+      pieces.push({
+        points: current.flatMap((index) => [points[index * 2], points[index * 2 + 1]]),
+        pressures: pressures && current.map((index) => pressures[index]),
+      });
+    }
+    current = [];
+  };
+  for (let index = 0; index < count; index++) {
+    if (erased[index]) {
+      flush();
+      continue;
+    }
+    current.push(index);
+    if (cut[index]) flush();
+  }
+  flush();
+  return pieces;
+};
@@ -0,0 +1,128 @@
+// -----------------------------------------------------------------------------
+// Persistent groups. Groups have no storage of their own: every element lists
+// the groups it belongs to in `groupIds`, outermost first, and a group exists
+// for as long as one element carries its id. Nesting is just a longer list.
+// -----------------------------------------------------------------------------
+
+interface GroupedElement {
+  id: string;
+  groupIds?: string[];
+}
+
+export const createGroupId = () => `group-${Date.now()}-${Math.random()}`;
+
+// Set an element's groups, leaving the field out entirely when it has none
+export const withGroupIds = <T extends GroupedElement>(element: T, groupIds: string[]): T => {
+  const next = { ...element };
+  delete next.groupIds;
+  return groupIds.length > 0 ? { ...next, groupIds } : next;
+};
+
+// How deep selection currently reaches into an element's groups. Elements
+// outside the entered group are picked from the top level.
+const getScopeDepth = (element: GroupedElement, editingGroupId: string | null) =>
+  editingGroupId ? (element.groupIds ?? []).indexOf(editingGroupId) + 1 : 0;
+
+// The group an element is picked as part of while `editingGroupId` is entered
+// (null for the board), or null when the element is picked on its own
+export const getSelectionGroupId = (element: GroupedElement, editingGroupId: string | null) =>
+  element.groupIds?.[getScopeDepth(element, editingGroupId)] ?? null;
+
+export const getGroupMemberIds = (elements: readonly GroupedElement[], groupId: string) =>
+  elements.filter((element) => element.groupIds?.includes(groupId)).map((element) => element.id);
+
+// Grow a list of picked ids so that every group touched is selected whole
+export const expandToGroups = (
+  elements: readonly GroupedElement[],
+  ids: string[],
+  editingGroupId: string | null
+) => {
+  const groupIds = new Set(
+    elements
+      .filter((element) => ids.includes(element.id))
+      .map((element) => getSelectionGroupId(element, editingGroupId))
+      .filter((groupId): groupId is string => groupId !== null)
+  );
+  return elements
+    .filter((element) =>
+      ids.includes(element.id) || element.groupIds?.some((groupId) => groupIds.has(groupId))
+    )
+    .map((element) => element.id);
+};
+
+// Number of separately pickable things in the selection: groups count once
+export const countSelectionUnits = (
+  elements: readonly GroupedElement[],
+  selectedIds: string[],
+  editingGroupId: string | null
+) =>
+  new Set(
+    elements
+      .filter((element) => selectedIds.includes(element.id))
+      .map((element) => getSelectionGroupId(element, editingGroupId) ?? element.id)
+  ).size;
+
+// New groupIds for the selected elements when they are wrapped in `groupId`.
+// The new group sits directly inside the entered group, if any.
+export const groupElements = (
+  elements: readonly GroupedElement[],
+  selectedIds: string[],
+  editingGroupId: string | null,
+  groupId: string
+) => {
+  const changes = new Map<string, string[]>();
+  elements.forEach((element) => {
+    if (!selectedIds.includes(element.id)) return;
+    const groupIds = element.groupIds ?? [];
+    const depth = getScopeDepth(element, editingGroupId);
+    changes.set(element.id, [...groupIds.slice(0, depth), groupId, ...groupIds.slice(depth)]);
+  });
+  return changes;
+};
+
+// New groupIds for the selected elements once their outermost selected group
+// is dissolved. Nested groups inside it are kept.
+export const ungroupElements = (
+  elements: readonly GroupedElement[],
+  selectedIds: string[],
+  editingGroupId: string | null
+) => {
+  const changes = new Map<string, string[]>();
+  elements.forEach((element) => {
+    if (!selectedIds.includes(element.id)) return;
+    const groupIds = element.groupIds ?? [];
+    const depth = getScopeDepth(element, editingGroupId);
+    if (depth < groupIds.length) {
+      changes.set(element.id, [...groupIds.slice(0, depth), ...groupIds.slice(depth + 1)]);
+    }
+  });
+  return changes;
+};
+
+// Copies only keep the groups they contain completely; a child copied out of
+// a group doesn't drag the rest of the group's identity along
+export const createGroupTrimmer = (elements: readonly GroupedElement[], copiedIds: string[]) => {
+  const partialGroups = new Set(
+    elements
+      .filter((element) => !copiedIds.includes(element.id))
+      .flatMap((element) => element.groupIds ?? [])
+  );
+  return <T extends GroupedElement>(element: T): T =>
+    withGroupIds(element, (element.groupIds ?? []).filter((groupId) => !partialGroups.has(groupId)));
+};
+
+// Gives pasted or imported elements fresh group ids, consistently across
+// every element passed through the same remapper
+export const createGroupIdRemapper = () => {
+  const freshIds = new Map<string, string>();
+  return <T extends GroupedElement>(element: T): T => {
+    if (!element.groupIds) return element;
+    return withGroupIds(
+      element,
+      element.groupIds.map((groupId) => {
+        if (!freshIds.has(groupId)) freshIds.set(groupId, createGroupId());
+        return freshIds.get(groupId)!;
+      })
+    );
+  };
+};
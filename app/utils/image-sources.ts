@@ -0,0 +1,39 @@
+// -----------------------------------------------------------------------------
+// Image URLs the app accepts in stored and imported boards. The server loads
+// these when rendering exports and thumbnails, so anything else (internal
+// addresses, file paths) must never reach it. Allowed are https links to our
+// own S3 bucket or a host listed in NEXT_PUBLIC_IMAGE_HOSTS, and inline
+// raster data: URIs.
+// -----------------------------------------------------------------------------
+
+const DATA_IMAGE_PATTERN = /^data:image\/(png|jpeg|gif|webp);base64,/i;
+
+const getBucketHosts = () => {
+  const bucket = process.env.NEXT_PUBLIC_AWS_BUCKET_NAME;
+  const region = process.env.NEXT_PUBLIC_AWS_REGION;
+  if (!bucket) return [];
+  return [
+    `${bucket}.s3.amazonaws.com`,
+    ...(region ? [`${bucket}.s3.${region}.amazonaws.com`, `${bucket}.s3-${region}.amazonaws.com`] : []),
+  ];
+};
+
+// Comma-separated host names, e.g. "images.example.com,cdn.example.com"
+const getExtraHosts = () =>
+  (process.env.NEXT_PUBLIC_IMAGE_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+export const isAllowedImageUrl = (value: string) => {
+  if (DATA_IMAGE_PATTERN.test(value)) return true;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.username || url.password || url.port) return false;
+  return [...getBucketHosts(), ...getExtraHosts()].includes(url.hostname.toLowerCase());
+};
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { LiveList, LiveObject } from "@liveblocks/client";
+import type { ShapeElement, Storage } from "@/app/liveblocks.config";
+import {
+  applyElementChanges,
+  createElementList,
+  createZIndexCounter,
+  diffElementLists,
+  syncConnectors,
+  syncElementList,
+} from "./live-elements";
+
+interface TestElement {
+  id: string;
+  x: number;
+  color?: string;
+  zIndex?: number;
+  [key: string]: string | number | undefined;
+}
+
+const a: TestElement = { id: "a", x: 0, color: "red", zIndex: 0 };
+const b: TestElement = { id: "b", x: 10, zIndex: 1 };
+
+const toJson = (list: LiveList<LiveObject<TestElement>>) => list.toImmutable();
+
+describe("diffElementLists", () => {
+  it("finds added, changed and removed elements", () => {
+    const changes = diffElementLists([a, b], [{ ...a, x: 5 }, { id: "c", x: 20 }]);
+    expect(changes).toEqual({
+      added: [{ id: "c", x: 20 }],
+      updated: [{ id: "a", changes: { x: 5 }, cleared: [] }],
+      removed: ["b"],
+    });
+  });
+
+  it("reports cleared fields but keeps an unknown zIndex", () => {
+    const { updated } = diffElementLists([a], [{ id: "a", x: 0 }]);
+    expect(updated).toEqual([{ id: "a", changes: {}, cleared: ["color"] }]);
+  });
+
+  it("returns nothing for an unchanged list", () => {
+    expect(diffElementLists([a, b], [a, { ...b }])).toEqual({ added: [], updated: [], removed: [] });
+  });
+});
+
+describe("syncElementList", () => {
+  it("keeps elements another user added after the snapshot was taken", () => {
+    const list = createElementList([a]);
+    const snapshot = toJson(list);
+    // Someone else adds an element before our update lands
+    list.push(new LiveObject<TestElement>({ id: "remote", x: 99 }));
+
+    syncElementList(list, snapshot, [...snapshot, b]);
+
+    expect(toJson(list).map((element) => element.id)).toEqual(["a", "remote", "b"]);
+  });
+
+  it("keeps fields another user changed meanwhile", () => {
+    const list = createElementList([a]);
+    const snapshot = toJson(list);
+    list.get(0)!.update({ color: "blue" });
+
+    syncElementList(list, snapshot, [{ ...snapshot[0], x: 50 }]);
+
+    expect(toJson(list)).toEqual([{ ...a, x: 50, color: "blue" }]);
+  });
+
+  it("does not bring back elements another user removed", () => {
+    const list = createElementList([a, b]);
+    const snapshot = toJson(list);
+    list.delete(1);
+
+    syncElementList(list, snapshot, [snapshot[0], { ...snapshot[1], x: 30 }]);
+
+    expect(toJson(list)).toEqual([a]);
+  });
+
+  it("only removes what the caller removed", () => {
+    const list = createElementList([a, b]);
+    const snapshot = toJson(list);
+    list.push(new LiveObject<TestElement>({ id: "remote", x: 99 }));
+
+    syncElementList(list, snapshot, [snapshot[1]]);
+
+    expect(toJson(list).map((element) => element.id)).toEqual(["b", "remote"]);
+  });
+
+  it("stacks new elements without a zIndex on top", () => {
+    const list = createElementList<TestElement>([]);
+    let next = 7;
+    syncElementList(list, [], [{ id: "c", x: 0 }, { id: "d", x: 0, zIndex: 2 }], () => next++);
+    expect(toJson(list)).toEqual([{ id: "c", x: 0, zIndex: 7 }, { id: "d", x: 0, zIndex: 2 }]);
+  });
+});
+
+describe("applyElementChanges", () => {
+  it("updates an added element that is already stored instead of duplicating it", () => {
+    const list = createElementList([a]);
+    applyElementChanges(list, { added: [{ ...a, x: 3 }], updated: [], removed: [] });
+    expect(toJson(list)).toEqual([{ ...a, x: 3 }]);
+  });
+});
+
+describe("createZIndexCounter", () => {
+  const createStorage = (shapes: TestElement[] = [], texts: TestElement[] = []) =>
+    new LiveObject({
+      images: createElementList<TestElement>([]),
+      shapes: createElementList(shapes),
+      lines: createElementList<TestElement>([]),
+      texts: createElementList(texts),
+    }) as unknown as LiveObject<Storage>;
+
+  it("hands out consecutive values above every stored element", () => {
+    const nextZIndex = createZIndexCounter(createStorage([{ id: "s", x: 0, zIndex: 4 }], [{ id: "t", x: 0, zIndex: 9 }]));
+    expect([nextZIndex(), nextZIndex(), nextZIndex()]).toEqual([10, 11, 12]);
+  });
+
+  it("looks up the maximum when the first value is needed", () => {
+    const storage = createStorage();
+    const nextZIndex = createZIndexCounter(storage);
+    storage.get("shapes").push(new LiveObject({ id: "remote", x: 0, zIndex: 5 }) as never);
+    expect(nextZIndex()).toBe(6);
+  });
+
+  it("stacks new elements in the order they are added", () => {
+    const storage = createStorage([{ id: "s", x: 0, zIndex: 2 }]);
+    const shapes = storage.get("shapes") as unknown as LiveList<LiveObject<TestElement>>;
+    const snapshot = toJson(shapes);
+    syncElementList(
+      shapes,
+      snapshot,
+      [...snapshot, { id: "a", x: 0 }, { id: "b", x: 0 }, { id: "c", x: 0 }],
+      createZIndexCounter(storage)
+    );
+    expect(toJson(shapes).map(({ id, zIndex }) => [id, zIndex])).toEqual([["s", 2], ["a", 3], ["b", 4], ["c", 5]]);
+  });
+});
+
+describe("syncConnectors", () => {
+  const rect = (id: string, x: number): ShapeElement =>
+    ({ id, type: "rectangle", x, y: 0, width: 100, height: 50, color: "#000", strokeWidth: 1 });
+  const connector: ShapeElement = {
+    id: "c",
+    type: "line",
+    x: 100,
+    y: 25,
+    width: 100,
+    height: 0,
+    color: "#000",
+    strokeWidth: 1,
+    points: [100, 25, 200, 25],
+    fromId: "a",
+    fromAnchor: "right",
+    toId: "b",
+    toAnchor: "left",
+  };
+  const createStorage = () =>
+    new LiveObject({
+      images: createElementList([]),
+      shapes: createElementList([rect("a", 0), rect("b", 200), connector]),
+      lines: createElementList([]),
+      texts: createElementList([]),
+    }) as unknown as LiveObject<Storage>;
+
+  it("re-routes connectors after a bound element moved", () => {
+    const storage = createStorage();
+    storage.get("shapes").get(1)!.update({ x: 300 });
+    syncConnectors(storage);
+    expect(storage.get("shapes").get(2)!.get("points")).toEqual([100, 25, 300, 25]);
+  });
+
+  it("releases ends bound to removed elements in storage", () => {
+    const storage = createStorage();
+    storage.get("shapes").delete(1);
+    syncConnectors(storage);
+    const stored = storage.get("shapes").get(1)!.toObject();
+    expect(stored.fromId).toBe("a");
+    expect(stored).not.toHaveProperty("toId");
+    expect(stored).not.toHaveProperty("toAnchor");
+  });
+});
@@ -0,0 +1,150 @@
+// -----------------------------------------------------------------------------
+// Helpers for element lists stored as LiveList<LiveObject<Element>>
+// -----------------------------------------------------------------------------
+
+import { LiveList, LiveObject, LsonObject } from "@liveblocks/client";
+import type { Storage } from "@/app/liveblocks.config";
+import { getNextZIndex } from "./z-order";
+import { rerouteConnectors } from "./connectors";
+
+type StoredElement = LsonObject & { id: string; zIndex?: number };
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) === JSON.stringify(b));
+
+export const createElementList = <T extends StoredElement>(elements: readonly T[]) =>
+  new LiveList(elements.map((element) => new LiveObject<T>({ ...element })));
+
+// Hands out zIndex values above every element currently in storage. The
+// current maximum is only looked up once a value is actually needed.
+export const createZIndexCounter = (storage: LiveObject<Storage>) => {
+  let nextZIndex: number | null = null;
+  return () => {
+    if (nextZIndex === null) {
+      nextZIndex = getNextZIndex({
+        images: storage.get("images").toImmutable(),
+        shapes: storage.get("shapes").toImmutable(),
+        lines: storage.get("lines").toImmutable(),
+        texts: storage.get("texts").toImmutable(),
+      });
+    }
+    return nextZIndex++;
+  };
+};
+
+// What changed between two versions of an element list, keyed by id: new
+// elements, the fields that changed or were cleared on existing ones, and
+// removed ids
+export interface ElementListChanges<T extends StoredElement> {
+  added: T[];
+  updated: { id: string; changes: Partial<T>; cleared: (keyof T)[] }[];
+  removed: string[];
+}
+
+export function diffElementLists<T extends StoredElement>(
+  previous: readonly T[],
+  next: readonly T[]
+): ElementListChanges<T> {
+  const previousById = new Map(previous.map((element) => [element.id, element]));
+  const nextIds = new Set(next.map((element) => element.id));
+  const changes: ElementListChanges<T> = {
+    added: [],
+    updated: [],
+    removed: previous.filter((element) => !nextIds.has(element.id)).map((element) => element.id),
+  };
+
+  next.forEach((element) => {
+    const before = previousById.get(element.id);
+    if (!before) {
+      changes.added.push(element);
+      return;
+    }
+    if (before === element) return;
+
+    const changed: Partial<T> = {};
+    (Object.keys(element) as (keyof T)[]).forEach((key) => {
+      if (element[key] !== undefined && !isSameValue(before[key], element[key])) {
+        changed[key] = element[key];
+      }
+    });
+    // A missing zIndex only means the caller didn't know it, so the stored
+    // stacking order is kept
+    const cleared = (Object.keys(before) as (keyof T)[]).filter(
+      (key) => before[key] !== undefined && element[key] === undefined && key !== "zIndex"
+    );
+    if (Object.keys(changed).length > 0 || cleared.length > 0) {
+      changes.updated.push({ id: element.id, changes: changed, cleared });
+    }
+  });
+  return changes;
+}
+
+// Apply changes to a live list by id. Elements other users added, changed or
+// removed meanwhile are left as they are: removed elements are not brought
+// back, and only the fields this change touched are written. New elements
+// without a zIndex are stacked on top with `nextZIndex`.
+export function applyElementChanges<T extends StoredElement>(
+  list: LiveList<LiveObject<T>>,
+  { added, updated, removed }: ElementListChanges<T>,
+  nextZIndex?: () => number
+) {
+  const removedIds = new Set(removed);
+  for (let index = list.length - 1; index >= 0; index--) {
+    if (removedIds.has(list.get(index)!.get("id"))) {
+      list.delete(index);
+    }
+  }
+
+  const current = new Map(list.map((item) => [item.get("id"), item]));
+  updated.forEach(({ id, changes, cleared }) => {
+    const item = current.get(id);
+    if (!item) return;
+    if (Object.keys(changes).length > 0) item.update(changes);
+    cleared.forEach((key) => item.delete(key));
+  });
+
+  added.forEach((element) => {
+    const item = current.get(element.id);
+    // Already stored by an earlier update from the same snapshot
+    if (item) {
+      item.update(element);
+      return;
+    }
+    const stored = new LiveObject<T>(
+      element.zIndex === undefined && nextZIndex
+        ? { ...element, zIndex: nextZIndex() }
+        : { ...element }
+    );
+    list.push(stored);
+    current.set(element.id, stored);
+  });
+}
+
+// Write the difference between `previous`, the list the caller started from,
+// and `next` to the live list. Only elements the caller actually added,
+// changed or removed are touched, so edits other users made meanwhile
+// survive and undo never touches them either.
+export function syncElementList<T extends StoredElement>(
+  list: LiveList<LiveObject<T>>,
+  previous: readonly T[],
+  next: readonly T[],
+  nextZIndex?: () => number
+) {
+  applyElementChanges(list, diffElementLists(previous, next), nextZIndex);
+}
+
+// Re-route connectors after elements they may be bound to have changed. Runs
+// inside the same mutation, so the move and the re-route are one undo step.
+export const syncConnectors = (
+  storage: LiveObject<Storage>,
+  imageSizes?: Map<string, { width: number; height: number }>
+) => {
+  const current = {
+    images: storage.get("images").toImmutable(),
+    shapes: storage.get("shapes").toImmutable(),
+    lines: storage.get("lines").toImmutable(),
+    texts: storage.get("texts").toImmutable(),
+  };
+  const shapes = rerouteConnectors(current, imageSizes);
+  if (shapes) syncElementList(storage.get("shapes"), current.shapes, shapes);
+};
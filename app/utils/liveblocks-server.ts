@@ -0,0 +1,91 @@
+// -----------------------------------------------------------------------------
+// Server-side access to Liveblocks rooms through the REST API. Requires
+// LIVEBLOCKS_SECRET_KEY; never import this from client components.
+// -----------------------------------------------------------------------------
+
+const LIVEBLOCKS_API_URL = "https://api.liveblocks.io/v2";
+
+async function liveblocksRequest(path: string, init: RequestInit = {}) {
+  const secretKey = process.env.LIVEBLOCKS_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("LIVEBLOCKS_SECRET_KEY is not configured");
+  }
+
+  return fetch(`${LIVEBLOCKS_API_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      "Content-Type": "application/json",
+      ...init.headers,
+    },
+  });
+}
+
+// Element lists are stored as LiveList<LiveObject<Element>>, see liveblocks.config
+const toElementListLson = (elements: readonly object[]) => ({
+  liveblocksType: "LiveList",
+  data: elements.map((element) => ({ liveblocksType: "LiveObject", data: element })),
+});
+
+// Replace a room's whole storage with the given element lists. Connected
+// clients receive the new state.
+export async function replaceRoomStorage(roomId: string, lists: Record<string, readonly object[]>) {
+  const room = encodeURIComponent(roomId);
+
+  // Storage can only be initialized while empty, so clear it first
+  const deleted = await liveblocksRequest(`/rooms/${room}/storage`, { method: "DELETE" });
+  if (!deleted.ok && deleted.status !== 404) {
+    throw new Error(`Failed to clear storage for room ${roomId}: ${await deleted.text()}`);
+  }
+
+  const data = Object.fromEntries(
+    Object.entries(lists).map(([key, elements]) => [key, toElementListLson(elements)])
+  );
+  const initialized = await liveblocksRequest(`/rooms/${room}/storage`, {
+    method: "POST",
+    body: JSON.stringify({ liveblocksType: "LiveObject", data }),
+  });
+  if (!initialized.ok) {
+    throw new Error(`Failed to restore storage for room ${roomId}: ${await initialized.text()}`);
+  }
+}
+
+// A room's storage as plain JSON, e.g. { images: [...], shapes: [...] }.
+// Rooms that were never opened have no storage and return null.
+export async function getRoomStorage(roomId: string): Promise<Record<string, object[]> | null> {
+  const response = await liveblocksRequest(`/rooms/${encodeURIComponent(roomId)}/storage?format=json`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to read storage for room ${roomId}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// Delete the room and its storage. Rooms that were never opened don't exist.
+export async function deleteRoom(roomId: string) {
+  const response = await liveblocksRequest(`/rooms/${encodeURIComponent(roomId)}`, { method: "DELETE" });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to delete room ${roomId}: ${await response.text()}`);
+  }
+}
+
+// Liveblocks permission sets: full access, or read-only with live cursors
+export type RoomPermission = "room:write" | "room:read" | "room:presence:write";
+
+// Issue an access token that lets the user into the given rooms only. The
+// userInfo is shown to others in the room.
+export async function authorizeUser(
+  userId: string,
+  userInfo: Record<string, string | undefined>,
+  permissions: Record<string, RoomPermission[]>
+): Promise<string> {
+  const response = await liveblocksRequest("/authorize-user", {
+    method: "POST",
+    body: JSON.stringify({ userId, userInfo, permissions }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to authorize user ${userId}: ${await response.text()}`);
+  }
+  const { token } = await response.json();
+  return token;
+}
@@ -0,0 +1,33 @@
+// -----------------------------------------------------------------------------
+// Collaborator identity for cursors and the avatar bar. Colors come from the
+// user id, so someone keeps their color across tabs and visits.
+// -----------------------------------------------------------------------------
+
+// Saturated enough to read white text on and to stand out on a white board
+export const PRESENCE_COLORS = [
+  "#E11D48",
+  "#EA580C",
+  "#CA8A04",
+  "#16A34A",
+  "#0891B2",
+  "#2563EB",
+  "#7C3AED",
+  "#C026D3",
+];
+
+export const getPresenceColor = (userId: string) => {
+  let hash = 0;
+  for (let index = 0; index < userId.length; index++) {
+    hash = (hash * 31 + userId.charCodeAt(index)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+// "Ada Lovelace" -> "AL", "ada" -> "A"
+export const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("") || "?";
@@ -1,36 +1,17 @@
-'use server'
+// Server-only: S3 access for uploads, room backups and board metadata. Client
+// components reach these through the API routes, which check access first.
 import { S3 } from "aws-sdk";
 import sharp from "sharp";
 import { v4 as uuidv4 } from "uuid";
+import type { BoardAccessInfo } from "./board-access";
+import type { BoardState } from "@/app/liveblocks.config";
 
-interface CanvasState {
-  images: Array<{
-    id: string;
-    url: string;
-    x: number;
-    y: number;
-    width?: number;
-    height?: number;
-  }>;
-  shapes: Array<{
-    id: string;
-    type: "rectangle" | "circle" | "line" | "arrow" | "star" | "triangle";
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    points?: number[];
-    color: string;
-    strokeWidth: number;
-  }>;
-  lines: Array<{
-    id: string;
-    points: number[];
-    color: string;
-    width: number;
-  }>;
+// A board as stored in room backups. Backups written before text elements
+// existed have no `texts`.
+export type CanvasState = Omit<BoardState, "texts"> & {
+  texts?: BoardState["texts"];
   createdAt?: string;
-}
+};
 
 const s3 = new S3({
   accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID,
@@ -40,38 +21,8 @@ const s3 = new S3({
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
 
-// Client-side upload handler
-export async function handleClientUpload(file: File | { arrayBuffer: () => Promise<ArrayBuffer>; type: string; size: number; name: string }): Promise<string> {
-  try {
-    // Convert file to FormData
-    const formData = new FormData();
-    const buffer = await file.arrayBuffer();
-    const blob = new Blob([buffer], { type: file.type });
-    formData.append('file', blob, file.name);
-
-    // Make a POST request to our server action endpoint
-    const response = await fetch('/api/upload', {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(error);
-    }
-
-    const data = await response.json();
-    return data.url;
-  } catch (error) {
-    console.error('Error uploading to S3:', error);
-    throw error;
-  }
-}
-
 // Server-side upload function
 export async function uploadToS3(formData: FormData): Promise<string> {
-  'use server'
-  
   if (!process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || 
       !process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || 
       !process.env.NEXT_PUBLIC_AWS_REGION || 
@@ -131,40 +82,148 @@ export async function uploadToS3(formData: FormData): Promise<string> {
   }
 }
 
-export async function createRoomBackup(roomId: string, canvasState: CanvasState): Promise<void> {
+// -----------------------------------------------------------------------------
+// Room backups: timestamped snapshots under room-backups/{roomId}/, newest last
+// -----------------------------------------------------------------------------
+
+export interface RoomBackupSnapshot {
+  id: string;
+  createdAt: string;
+  size: number;
+}
+
+interface CreateBackupOptions {
+  // Skip the backup if the latest snapshot is younger than this (ms)
+  minInterval?: number;
+}
+
+// Number of snapshots kept per room; older ones are deleted on each backup
+const BACKUP_RETENTION = 48;
+
+const getBucket = () => process.env.NEXT_PUBLIC_AWS_BUCKET_NAME!;
+const getSnapshotPrefix = (roomId: string) => `room-backups/${roomId}/`;
+const getSnapshotKey = (roomId: string, snapshotId: string) =>
+  `${getSnapshotPrefix(roomId)}${snapshotId}.json`;
+// Rooms backed up before snapshots existed kept a single file
+const getLegacyBackupKey = (roomId: string) => `room-backups/${roomId}.json`;
+
+// ISO timestamp without ":" and "." so ids sort by time and are safe in URLs
+const createSnapshotId = (date: Date) => date.toISOString().replace(/[:.]/g, '-');
+
+const getBackupContent = (state: CanvasState) =>
+  JSON.stringify([state.images, state.shapes, state.lines, state.texts ?? []]);
+
+async function readBackup(key: string): Promise<CanvasState | null> {
   try {
-    const params = {
-      Bucket: process.env.NEXT_PUBLIC_AWS_BUCKET_NAME!,
-      Key: `room-backups/${roomId}.json`,
-      Body: JSON.stringify(canvasState),
+    const data = await s3.getObject({ Bucket: getBucket(), Key: key }).promise();
+    if (!data.Body) {
+      throw new Error('No backup data found');
+    }
+    return JSON.parse(data.Body.toString()) as CanvasState;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'NoSuchKey') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Snapshots for a room, newest first
+export async function listRoomBackups(roomId: string): Promise<RoomBackupSnapshot[]> {
+  try {
+    const prefix = getSnapshotPrefix(roomId);
+    const snapshots: RoomBackupSnapshot[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const data = await s3.listObjectsV2({
+        Bucket: getBucket(),
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }).promise();
+
+      (data.Contents || []).forEach((object) => {
+        if (!object.Key?.endsWith('.json')) return;
+        snapshots.push({
+          id: object.Key.slice(prefix.length, -'.json'.length),
+          createdAt: (object.LastModified ?? new Date(0)).toISOString(),
+          size: object.Size ?? 0,
+        });
+      });
+      continuationToken = data.IsTruncated ? data.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return snapshots.sort((a, b) => b.id.localeCompare(a.id));
+  } catch (error) {
+    console.error('Error listing room backups:', error);
+    throw error;
+  }
+}
+
+// Write a new snapshot unless nothing changed since the latest one, then prune
+// snapshots beyond BACKUP_RETENTION. Returns the new snapshot, or null if skipped.
+export async function createRoomBackup(
+  roomId: string,
+  canvasState: CanvasState,
+  options: CreateBackupOptions = {}
+): Promise<RoomBackupSnapshot | null> {
+  try {
+    const snapshots = await listRoomBackups(roomId);
+    const latest = snapshots[0];
+    const now = new Date();
+
+    if (latest) {
+      const age = now.getTime() - new Date(latest.createdAt).getTime();
+      if (options.minInterval && age < options.minInterval) {
+        return null;
+      }
+      const latestState = await readBackup(getSnapshotKey(roomId, latest.id));
+      if (latestState && getBackupContent(latestState) === getBackupContent(canvasState)) {
+        return null;
+      }
+    }
+
+    const id = createSnapshotId(now);
+    const body = JSON.stringify({ ...canvasState, createdAt: now.toISOString() });
+    await s3.putObject({
+      Bucket: getBucket(),
+      Key: getSnapshotKey(roomId, id),
+      Body: body,
       ContentType: 'application/json',
-    };
+    }).promise();
+    await touchBoard(roomId, now);
 
-    await s3.putObject(params).promise();
-    console.log(`Created backup for room ${roomId}`);
+    const expired = snapshots.slice(BACKUP_RETENTION - 1);
+    if (expired.length > 0) {
+      await s3.deleteObjects({
+        Bucket: getBucket(),
+        Delete: {
+          Objects: expired.map((snapshot) => ({ Key: getSnapshotKey(roomId, snapshot.id) })),
+        },
+      }).promise();
+    }
+
+    return { id, createdAt: now.toISOString(), size: Buffer.byteLength(body) };
   } catch (error) {
     console.error('Error creating room backup:', error);
     throw error;
   }
 }
 
-export async function loadRoomBackup(roomId: string): Promise<CanvasState | null> {
+// Load a specific snapshot, or the latest one (falling back to the legacy
+// single-file backup) when no snapshot id is given
+export async function loadRoomBackup(roomId: string, snapshotId?: string): Promise<CanvasState | null> {
   try {
-    const params = {
-      Bucket: process.env.NEXT_PUBLIC_AWS_BUCKET_NAME!,
-      Key: `room-backups/${roomId}.json`,
-    };
+    if (snapshotId) {
+      return await readBackup(getSnapshotKey(roomId, snapshotId));
+    }
 
-    const data = await s3.getObject(params).promise();
-    if (!data.Body) {
-      throw new Error('No backup data found');
+    const [latest] = await listRoomBackups(roomId);
+    if (latest) {
+      return await readBackup(getSnapshotKey(roomId, latest.id));
     }
-    
-    return JSON.parse(data.Body.toString()) as CanvasState;
+    return await readBackup(getLegacyBackupKey(roomId));
   } catch (error) {
-    if ((error as { code?: string }).code === 'NoSuchKey') {
-      return null;
-    }
     console.error('Error loading room backup:', error);
     throw error;
   }
@@ -172,12 +231,10 @@ export async function loadRoomBackup(roomId: string): Promise<CanvasState | null
 
 export async function checkRoomBackupExists(roomId: string): Promise<boolean> {
   try {
-    const params = {
-      Bucket: process.env.NEXT_PUBLIC_AWS_BUCKET_NAME!,
-      Key: `room-backups/${roomId}.json`,
-    };
+    const snapshots = await listRoomBackups(roomId);
+    if (snapshots.length > 0) return true;
 
-    await s3.headObject(params).promise();
+    await s3.headObject({ Bucket: getBucket(), Key: getLegacyBackupKey(roomId) }).promise();
     return true;
   } catch (error) {
     if ((error as { code?: string }).code === 'NotFound') {
@@ -186,4 +243,110 @@ export async function checkRoomBackupExists(roomId: string): Promise<boolean> {
     console.error('Error checking room backup:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// -----------------------------------------------------------------------------
+// Board metadata: one board-meta/{roomId}.json per board, next to its
+// room-backups/ snapshots. The board's content lives in its Liveblocks room.
+// -----------------------------------------------------------------------------
+
+export interface BoardMeta extends BoardAccessInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Last time a backup captured a change, so accurate to BACKUP_DEBOUNCE
+  updatedAt: string;
+}
+
+const BOARD_META_PREFIX = 'board-meta/';
+const getBoardMetaKey = (roomId: string) => `${BOARD_META_PREFIX}${roomId}.json`;
+
+export async function getBoard(roomId: string): Promise<BoardMeta | null> {
+  try {
+    const data = await s3.getObject({ Bucket: getBucket(), Key: getBoardMetaKey(roomId) }).promise();
+    if (!data.Body) return null;
+    return JSON.parse(data.Body.toString()) as BoardMeta;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'NoSuchKey') {
+      return null;
+    }
+    console.error('Error loading board:', error);
+    throw error;
+  }
+}
+
+export async function saveBoard(board: BoardMeta): Promise<BoardMeta> {
+  try {
+    await s3.putObject({
+      Bucket: getBucket(),
+      Key: getBoardMetaKey(board.id),
+      Body: JSON.stringify(board),
+      ContentType: 'application/json',
+    }).promise();
+    return board;
+  } catch (error) {
+    console.error('Error saving board:', error);
+    throw error;
+  }
+}
+
+// All boards, most recently modified first
+export async function listBoards(): Promise<BoardMeta[]> {
+  try {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const data = await s3.listObjectsV2({
+        Bucket: getBucket(),
+        Prefix: BOARD_META_PREFIX,
+        ContinuationToken: continuationToken,
+      }).promise();
+
+      (data.Contents || []).forEach((object) => {
+        if (object.Key?.endsWith('.json')) keys.push(object.Key);
+      });
+      continuationToken = data.IsTruncated ? data.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    const boards = await Promise.all(
+      keys.map((key) => getBoard(key.slice(BOARD_META_PREFIX.length, -'.json'.length)))
+    );
+    return boards
+      .filter((board): board is BoardMeta => board !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error('Error listing boards:', error);
+    throw error;
+  }
+}
+
+// Record a change to the board. Boards without metadata are left alone:
+// only /api/boards and /api/liveblocks-auth create them, where the owner is known.
+export async function touchBoard(roomId: string, date = new Date()): Promise<BoardMeta | null> {
+  const board = await getBoard(roomId);
+  if (!board) return null;
+  return saveBoard({ ...board, updatedAt: date.toISOString() });
+}
+
+// Remove the board's metadata and every backup snapshot
+export async function deleteBoardFiles(roomId: string): Promise<void> {
+  try {
+    const snapshots = await listRoomBackups(roomId);
+    const keys = [
+      getBoardMetaKey(roomId),
+      getLegacyBackupKey(roomId),
+      ...snapshots.map((snapshot) => getSnapshotKey(roomId, snapshot.id)),
+    ];
+    // deleteObjects takes at most 1000 keys per call
+    for (let index = 0; index < keys.length; index += 1000) {
+      await s3.deleteObjects({
+        Bucket: getBucket(),
+        Delete: { Objects: keys.slice(index, index + 1000).map((Key) => ({ Key })) },
+      }).promise();
+    }
+  } catch (error) {
+    console.error('Error deleting board files:', error);
+    throw error;
+  }
+}
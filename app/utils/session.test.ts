@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSessionToken, readSessionToken, signValue, verifyValue } from "./session";
+
+const user = { id: "user-1", name: "Ada", email: "ada@example.com" };
+
+describe("signed values", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it("round-trips a session", async () => {
+    const token = await createSessionToken(user);
+    expect(await readSessionToken(token)).toEqual(user);
+  });
+
+  it("rejects missing and malformed tokens", async () => {
+    expect(await readSessionToken(undefined)).toBeNull();
+    expect(await readSessionToken("")).toBeNull();
+    expect(await readSessionToken("no-signature")).toBeNull();
+    expect(await readSessionToken("a.b.c")).toBeNull();
+    expect(await readSessionToken("!!!.???")).toBeNull();
+  });
+
+  it("rejects a tampered payload", async () => {
+    const [, signature] = (await createSessionToken(user)).split(".");
+    const [payload] = (await createSessionToken({ ...user, id: "someone-else" })).split(".");
+    expect(await readSessionToken(`${payload}.${signature}`)).toBeNull();
+  });
+
+  it("rejects tokens signed with another secret", async () => {
+    const token = await createSessionToken(user);
+    vi.stubEnv("AUTH_SECRET", "rotated-secret");
+    expect(await readSessionToken(token)).toBeNull();
+  });
+
+  it("rejects a value signed for another purpose", async () => {
+    const token = await signValue("share-link", user);
+    expect(await readSessionToken(token)).toBeNull();
+    expect(await verifyValue("share-link", token)).toEqual(user);
+  });
+
+  it("expires after maxAge", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    const token = await signValue("invite", "board-1", 60);
+    expect(await verifyValue("invite", token)).toBe("board-1");
+
+    vi.setSystemTime(new Date("2025-01-01T00:01:01.000Z"));
+    expect(await verifyValue("invite", token)).toBeNull();
+  });
+
+  it("never expires without maxAge", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    const token = await signValue("invite", "board-1");
+
+    vi.setSystemTime(new Date("2035-01-01T00:00:00.000Z"));
+    expect(await verifyValue("invite", token)).toBe("board-1");
+  });
+
+  it("requires AUTH_SECRET", async () => {
+    vi.stubEnv("AUTH_SECRET", "");
+    await expect(createSessionToken(user)).rejects.toThrow("AUTH_SECRET is not configured");
+  });
+});
@@ -0,0 +1,73 @@
+// -----------------------------------------------------------------------------
+// Signed values for cookies and tokens (HMAC-SHA256 over AUTH_SECRET).
+// Uses Web Crypto only, so it runs in middleware as well as in routes.
+// -----------------------------------------------------------------------------
+
+export interface SessionUser {
+  // Stable id from the identity provider (`sub`)
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
+export const SESSION_COOKIE = "newcanvas-session";
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60; // seconds
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const getSigningKey = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not configured");
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+};
+
+// Encode `value` as `payload.signature`, valid for `maxAge` seconds or for
+// good without one. The purpose keeps a value signed for one use (say a share
+// link) from being accepted as another (a session).
+export async function signValue(purpose: string, value: unknown, maxAge?: number): Promise<string> {
+  const exp = maxAge === undefined ? undefined : Date.now() + maxAge * 1000;
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ purpose, value, exp })));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The signed value, or null if the token is missing, tampered with or expired
+export async function verifyValue<T>(purpose: string, token: string | null | undefined): Promise<T | null> {
+  const [payload, signature, ...rest] = token?.split(".") ?? [];
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const key = await getSigningKey();
+  try {
+    const isValid = await crypto.subtle.verify("HMAC", key, fromBase64Url(signature), encoder.encode(payload));
+    if (!isValid) return null;
+    const data = JSON.parse(decoder.decode(fromBase64Url(payload)));
+    const isCurrent = data.exp === undefined || (typeof data.exp === "number" && data.exp > Date.now());
+    return data.purpose === purpose && isCurrent
+      ? (data.value as T)
+      : null;
+  } catch {
+    // Malformed base64 or JSON
+    return null;
+  }
+}
+
+export const createSessionToken = (user: SessionUser) => signValue("session", user, SESSION_MAX_AGE);
+
+export const readSessionToken = (token: string | null | undefined) =>
+  verifyValue<SessionUser>("session", token);
@@ -0,0 +1,196 @@
+// -----------------------------------------------------------------------------
+// Keyboard shortcut registry. Every shortcut the canvas understands is listed
+// here once; the keydown handler and the cheat sheet both read from it.
+// -----------------------------------------------------------------------------
+
+import { ToolType } from "@/app/types/canvas";
+import { AlignAction } from "./align";
+
+export type ShortcutAction =
+  | `tool:${ToolType}`
+  | "undo"
+  | "redo"
+  | "copy"
+  | "paste"
+  | "duplicate"
+  | "delete"
+  | "selectAll"
+  | "deselect"
+  | "nudge"
+  | "nudgeFar"
+  | "bringForward"
+  | "sendBackward"
+  | "bringToFront"
+  | "sendToBack"
+  | "group"
+  | "ungroup"
+  | "toggleLocked"
+  | "toggleHidden"
+  | `align:${AlignAction}`
+  | "distributeHorizontally"
+  | "distributeVertically"
+  | "tidyUp"
+  | "zoomIn"
+  | "zoomOut"
+  | "zoomReset"
+  | "toggleSnapToGrid"
+  | "showShortcuts";
+
+export type ShortcutGroup = "Tools" | "Edit" | "Selection" | "Arrange" | "Align" | "View";
+
+export interface Shortcut {
+  action: ShortcutAction;
+  // Combos such as "Mod+Shift+Z"; Mod is Cmd on macOS and Ctrl elsewhere
+  keys: string[];
+  label: string;
+  group: ShortcutGroup;
+  // Handled by native clipboard events; only listed in the cheat sheet
+  displayOnly?: boolean;
+}
+
+export const TOOL_SHORTCUTS: Record<ToolType, { key: string; label: string }> = {
+  select: { key: "V", label: "Select" },
+  hand: { key: "H", label: "Hand" },
+  pen: { key: "P", label: "Pen" },
+  highlighter: { key: "I", label: "Highlighter" },
+  eraser: { key: "E", label: "Eraser" },
+  text: { key: "T", label: "Text" },
+  sticky: { key: "N", label: "Sticky note" },
+  rectangle: { key: "R", label: "Rectangle" },
+  circle: { key: "O", label: "Circle" },
+  line: { key: "L", label: "Line" },
+  arrow: { key: "A", label: "Arrow" },
+  star: { key: "S", label: "Star" },
+  triangle: { key: "Y", label: "Triangle" },
+  move: { key: "M", label: "Move" },
+};
+
+const ARROW_KEYS = ["ArrowLeft", "ArrowUp", "ArrowRight", "ArrowDown"];
+
+export const SHORTCUTS: Shortcut[] = [
+  ...(Object.entries(TOOL_SHORTCUTS) as [ToolType, { key: string; label: string }][]).map(
+    ([tool, { key, label }]): Shortcut => ({
+      action: `tool:${tool}`,
+      keys: [key],
+      label,
+      group: "Tools",
+    })
+  ),
+  { action: "undo", keys: ["Mod+Z"], label: "Undo", group: "Edit" },
+  { action: "redo", keys: ["Mod+Shift+Z", "Mod+Y"], label: "Redo", group: "Edit" },
+  { action: "copy", keys: ["Mod+C"], label: "Copy", group: "Edit", displayOnly: true },
+  { action: "paste", keys: ["Mod+V"], label: "Paste", group: "Edit", displayOnly: true },
+  { action: "duplicate", keys: ["Mod+D"], label: "Duplicate", group: "Edit" },
+  { action: "delete", keys: ["Delete", "Backspace"], label: "Delete", group: "Edit" },
+  { action: "selectAll", keys: ["Mod+A"], label: "Select all", group: "Selection" },
+  { action: "deselect", keys: ["Escape"], label: "Clear selection or leave group", group: "Selection" },
+  { action: "nudge", keys: ARROW_KEYS, label: "Nudge by 1px", group: "Selection" },
+  {
+    action: "nudgeFar",
+    keys: ARROW_KEYS.map((key) => `Shift+${key}`),
+    label: "Nudge by 10px",
+    group: "Selection",
+  },
+  { action: "bringForward", keys: ["Mod+]"], label: "Bring forward", group: "Arrange" },
+  { action: "sendBackward", keys: ["Mod+["], label: "Send backward", group: "Arrange" },
+  { action: "bringToFront", keys: ["Mod+Shift+]"], label: "Bring to front", group: "Arrange" },
+  { action: "sendToBack", keys: ["Mod+Shift+["], label: "Send to back", group: "Arrange" },
+  { action: "group", keys: ["Mod+G"], label: "Group", group: "Arrange" },
+  { action: "ungroup", keys: ["Mod+Shift+G"], label: "Ungroup", group: "Arrange" },
+  { action: "toggleLocked", keys: ["Mod+Shift+L"], label: "Lock / unlock", group: "Arrange" },
+  { action: "toggleHidden", keys: ["Mod+Shift+H"], label: "Hide / show", group: "Arrange" },
+  { action: "align:left", keys: ["Alt+A"], label: "Align left", group: "Align" },
+  { action: "align:center", keys: ["Alt+H"], label: "Align center", group: "Align" },
+  { action: "align:right", keys: ["Alt+D"], label: "Align right", group: "Align" },
+  { action: "align:top", keys: ["Alt+W"], label: "Align top", group: "Align" },
+  { action: "align:middle", keys: ["Alt+V"], label: "Align middle", group: "Align" },
+  { action: "align:bottom", keys: ["Alt+S"], label: "Align bottom", group: "Align" },
+  { action: "distributeHorizontally", keys: ["Alt+Shift+H"], label: "Distribute horizontally", group: "Align" },
+  { action: "distributeVertically", keys: ["Alt+Shift+V"], label: "Distribute vertically", group: "Align" },
+  { action: "tidyUp", keys: ["Alt+Shift+T"], label: "Tidy up into grid", group: "Align" },
+  { action: "zoomIn", keys: ["Mod+=", "Mod+Plus", "=", "Plus"], label: "Zoom in", group: "View" },
+  { action: "zoomOut", keys: ["Mod+-", "-"], label: "Zoom out", group: "View" },
+  { action: "zoomReset", keys: ["Mod+0"], label: "Zoom to 100%", group: "View" },
+  { action: "toggleSnapToGrid", keys: ["Mod+'"], label: "Snap to grid", group: "View" },
+  { action: "showShortcuts", keys: ["?"], label: "Keyboard shortcuts", group: "View" },
+];
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ["Tools", "Edit", "Selection", "Arrange", "Align", "View"];
+
+// Named keys that can't be written literally inside a "+"-separated combo
+const KEY_ALIASES: Record<string, string> = { Plus: "+" };
+
+// Keys matched by physical position, because Shift changes the character
+// they produce ("]" becomes "}" on most layouts)
+const KEY_CODES: Record<string, string> = { "[": "BracketLeft", "]": "BracketRight" };
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowUp: "↑",
+  ArrowRight: "→",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  Backspace: "⌫",
+  Plus: "+",
+};
+
+export const isMacPlatform = () =>
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const parseCombo = (combo: string) => {
+  const parts = combo.split("+");
+  const key = parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1));
+  return {
+    key: KEY_ALIASES[key] ?? key,
+    mod: modifiers.has("Mod"),
+    shift: modifiers.has("Shift"),
+    alt: modifiers.has("Alt"),
+  };
+};
+
+export const matchesCombo = (e: KeyboardEvent, combo: string) => {
+  const { key, mod, shift, alt } = parseCombo(combo);
+  const isMod = isMacPlatform() ? e.metaKey : e.ctrlKey;
+  if (isMod !== mod || e.altKey !== alt) return false;
+
+  // Letters compare case-insensitively and respect Shift. Symbols such as "?"
+  // or "+" already need Shift on most layouts, so Shift is not compared.
+  if (/^[a-z0-9]$/i.test(key)) {
+    // Option on macOS turns letters into other characters ("å" for Option+A)
+    const pressed = alt ? e.code.replace(/^(Key|Digit)/, "") : e.key;
+    return pressed.toLowerCase() === key.toLowerCase() && e.shiftKey === shift;
+  }
+  if (KEY_CODES[key]) {
+    return e.code === KEY_CODES[key] && e.shiftKey === shift;
+  }
+  if (key.length === 1) {
+    return e.key === key;
+  }
+  return e.key === key && e.shiftKey === shift;
+};
+
+export const findShortcut = (e: KeyboardEvent) =>
+  SHORTCUTS.find(
+    (shortcut) => !shortcut.displayOnly && shortcut.keys.some((combo) => matchesCombo(e, combo))
+  );
+
+export const formatCombo = (combo: string) => {
+  const isMac = isMacPlatform();
+  return combo
+    .split("+")
+    .map((part) => {
+      if (part === "Mod") return isMac ? "⌘" : "Ctrl";
+      if (part === "Shift") return isMac ? "⇧" : "Shift";
+      if (part === "Alt") return isMac ? "⌥" : "Alt";
+      return KEY_LABELS[part] ?? part;
+    })
+    .join(isMac ? "" : "+");
+};
+
+// Shortcuts never fire while the user is typing
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
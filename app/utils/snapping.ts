@@ -0,0 +1,186 @@
+// -----------------------------------------------------------------------------
+// Snapping for drags and resizes: smart guides that line up edges and centers
+// with other elements, an optional grid, and the distance badges shown to the
+// nearest neighbours. Everything here works in world coordinates.
+// -----------------------------------------------------------------------------
+
+import { Bounds } from "./canvas-geometry";
+
+// A guide line drawn across the aligned elements
+export interface SnapGuide {
+  orientation: "vertical" | "horizontal";
+  // x for vertical guides, y for horizontal ones
+  position: number;
+  start: number;
+  end: number;
+}
+
+// Gap between the moving bounds and its nearest neighbour on one side
+export interface DistanceBadge {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  distance: number;
+}
+
+interface SnapOptions {
+  // Largest distance that still snaps, in world units
+  threshold: number;
+  // Snap to a grid of this size when nothing else is close enough
+  gridSize?: number;
+}
+
+// Left, center and right (or top, middle and bottom) of a box
+const getStops = (bounds: Bounds, axis: "x" | "y") => {
+  const start = axis === "x" ? bounds.x : bounds.y;
+  const size = axis === "x" ? bounds.width : bounds.height;
+  return [start, start + size / 2, start + size];
+};
+
+// Closest pairing of a moving stop with a target stop on one axis
+const findAxisSnap = (moving: Bounds, targets: Bounds[], axis: "x" | "y", threshold: number) => {
+  let best: { offset: number; position: number } | null = null;
+  const movingStops = getStops(moving, axis);
+  for (const target of targets) {
+    for (const position of getStops(target, axis)) {
+      for (const stop of movingStops) {
+        const offset = position - stop;
+        if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+          best = { offset, position };
+        }
+      }
+    }
+  }
+  return best;
+};
+
+const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+const translate = (bounds: Bounds, dx: number, dy: number): Bounds => ({
+  ...bounds,
+  x: bounds.x + dx,
+  y: bounds.y + dy,
+});
+
+// Guides for every target stop that lines up exactly with the moved bounds
+const getGuides = (bounds: Bounds, targets: Bounds[]): SnapGuide[] => {
+  const guides: SnapGuide[] = [];
+  const epsilon = 0.01;
+  (["x", "y"] as const).forEach((axis) => {
+    const stops = getStops(bounds, axis);
+    stops.forEach((position) => {
+      const aligned = targets.filter((target) =>
+        getStops(target, axis).some((stop) => Math.abs(stop - position) < epsilon)
+      );
+      if (aligned.length === 0) return;
+      const cross = axis === "x" ? "y" : "x";
+      const extents = [bounds, ...aligned].flatMap((box) => {
+        const crossStops = getStops(box, cross);
+        return [crossStops[0], crossStops[2]];
+      });
+      guides.push({
+        orientation: axis === "x" ? "vertical" : "horizontal",
+        position,
+        start: Math.min(...extents),
+        end: Math.max(...extents),
+      });
+    });
+  });
+  return guides;
+};
+
+// Snap a box that is being moved by (dx, dy). Returns the adjusted offset and
+// the guides to draw.
+export const snapMove = (
+  bounds: Bounds,
+  dx: number,
+  dy: number,
+  targets: Bounds[],
+  options: SnapOptions
+) => {
+  const moved = translate(bounds, dx, dy);
+  const snapX = findAxisSnap(moved, targets, "x", options.threshold);
+  const snapY = findAxisSnap(moved, targets, "y", options.threshold);
+
+  let offsetX = snapX?.offset ?? 0;
+  let offsetY = snapY?.offset ?? 0;
+  if (options.gridSize) {
+    if (!snapX) offsetX = snapToGrid(moved.x, options.gridSize) - moved.x;
+    if (!snapY) offsetY = snapToGrid(moved.y, options.gridSize) - moved.y;
+  }
+
+  const snapped = translate(moved, offsetX, offsetY);
+  return {
+    dx: dx + offsetX,
+    dy: dy + offsetY,
+    bounds: snapped,
+    guides: getGuides(snapped, targets),
+  };
+};
+
+// Snap a single point, such as a resize handle, to target stops or the grid
+export const snapPoint = (
+  point: { x: number; y: number },
+  targets: Bounds[],
+  options: SnapOptions
+) => {
+  const box = { x: point.x, y: point.y, width: 0, height: 0 };
+  const snapX = findAxisSnap(box, targets, "x", options.threshold);
+  const snapY = findAxisSnap(box, targets, "y", options.threshold);
+
+  const x = snapX ? snapX.position : options.gridSize ? snapToGrid(point.x, options.gridSize) : point.x;
+  const y = snapY ? snapY.position : options.gridSize ? snapToGrid(point.y, options.gridSize) : point.y;
+  return {
+    x,
+    y,
+    guides: getGuides({ x, y, width: 0, height: 0 }, targets),
+  };
+};
+
+// Distance to the nearest neighbour on each side that overlaps the box on the
+// other axis
+export const getDistanceBadges = (bounds: Bounds, targets: Bounds[]): DistanceBadge[] => {
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  const overlapsY = (target: Bounds) => target.y < bottom && target.y + target.height > bounds.y;
+  const overlapsX = (target: Bounds) => target.x < right && target.x + target.width > bounds.x;
+  const badges: DistanceBadge[] = [];
+
+  const nearest = (candidates: Bounds[], gap: (target: Bounds) => number) =>
+    candidates
+      .filter((target) => gap(target) > 0)
+      .sort((a, b) => gap(a) - gap(b))[0];
+
+  const rowTargets = targets.filter(overlapsY);
+  const columnTargets = targets.filter(overlapsX);
+
+  const left = nearest(rowTargets, (target) => bounds.x - (target.x + target.width));
+  const rightNeighbour = nearest(rowTargets, (target) => target.x - right);
+  const above = nearest(columnTargets, (target) => bounds.y - (target.y + target.height));
+  const below = nearest(columnTargets, (target) => target.y - bottom);
+
+  // Measure along the middle of the part the two boxes share
+  const sharedMiddleY = (target: Bounds) =>
+    (Math.max(bounds.y, target.y) + Math.min(bottom, target.y + target.height)) / 2;
+  const sharedMiddleX = (target: Bounds) =>
+    (Math.max(bounds.x, target.x) + Math.min(right, target.x + target.width)) / 2;
+
+  if (left) {
+    const y = sharedMiddleY(left);
+    badges.push({ x1: left.x + left.width, y1: y, x2: bounds.x, y2: y, distance: bounds.x - (left.x + left.width) });
+  }
+  if (rightNeighbour) {
+    const y = sharedMiddleY(rightNeighbour);
+    badges.push({ x1: right, y1: y, x2: rightNeighbour.x, y2: y, distance: rightNeighbour.x - right });
+  }
+  if (above) {
+    const x = sharedMiddleX(above);
+    badges.push({ x1: x, y1: above.y + above.height, x2: x, y2: bounds.y, distance: bounds.y - (above.y + above.height) });
+  }
+  if (below) {
+    const x = sharedMiddleX(below);
+    badges.push({ x1: x, y1: bottom, x2: x, y2: below.y, distance: below.y - bottom });
+  }
+  return badges;
+};
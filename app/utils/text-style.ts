@@ -0,0 +1,33 @@
+// Text and sticky-note styling shared by the canvas renderer and exports
+export const TEXT_FONT_FAMILY = 'Arial, sans-serif';
+export const TEXT_LINE_HEIGHT = 1.2;
+export const STICKY_SIZE = 200;
+export const STICKY_PADDING = 12;
+export const STICKY_FILL = '#FEF08A';
+
+// Break text into lines that fit `maxWidth`, wrapping at word boundaries.
+// Without a width only explicit line breaks are kept.
+export const wrapTextLines = (
+  text: string,
+  maxWidth: number | undefined,
+  measure: (value: string) => number
+) => {
+  const paragraphs = text.split('\n');
+  if (!maxWidth) return paragraphs;
+
+  const lines: string[] = [];
+  paragraphs.forEach((paragraph) => {
+    let current = '';
+    paragraph.split(' ').forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && measure(candidate) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    lines.push(current);
+  });
+  return lines;
+};
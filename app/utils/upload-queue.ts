@@ -0,0 +1,99 @@
+// -----------------------------------------------------------------------------
+// Client-side helpers for dropping many files onto the canvas at once
+// -----------------------------------------------------------------------------
+
+// Run `worker` over all items with at most `limit` promises in flight
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, runNext);
+  await Promise.all(runners);
+  return results;
+}
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return [await entryToFile(entry as FileSystemFileEntry)];
+  }
+  if (!entry.isDirectory) return [];
+
+  // readEntries returns directory contents in batches until an empty one
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  let batch = await readDirectoryEntries(reader);
+  while (batch.length > 0) {
+    for (const child of batch) {
+      files.push(...(await collectEntryFiles(child)));
+    }
+    batch = await readDirectoryEntries(reader);
+  }
+  return files;
+}
+
+// All files in a drop, including the contents of dropped folders.
+// Entries must be read synchronously, before the drop event is finished.
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items || [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files || []);
+  }
+
+  const files = await Promise.all(entries.map(collectEntryFiles));
+  return files.flat();
+}
+
+// Upload one file through /api/upload, which stores it for the given board
+export async function handleClientUpload(
+  file: File | { arrayBuffer: () => Promise<ArrayBuffer>; type: string; size: number; name: string },
+  roomId: string
+): Promise<string> {
+  try {
+    const formData = new FormData();
+    const buffer = await file.arrayBuffer();
+    const blob = new Blob([buffer], { type: file.type });
+    formData.append('file', blob, file.name);
+    formData.append('roomId', roomId);
+
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(error);
+    }
+
+    const data = await response.json();
+    return data.url;
+  } catch (error) {
+    console.error('Error uploading to S3:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { ImageElement, LineElement, ShapeElement, TextElement } from "@/app/liveblocks.config";
+import { arrangeElements, getNextZIndex, getOrderedElements, moveElementsTo } from "./z-order";
+
+const image = (id: string, zIndex?: number): ImageElement => ({ id, url: "data:image/png;base64,", x: 0, y: 0, zIndex });
+const line = (id: string, zIndex?: number): LineElement => ({ id, points: [0, 0], color: "#000", width: 1, zIndex });
+const shape = (id: string, zIndex?: number): ShapeElement =>
+  ({ id, type: "rectangle", x: 0, y: 0, width: 10, height: 10, color: "#000", strokeWidth: 1, zIndex });
+const text = (id: string, zIndex?: number): TextElement =>
+  ({ id, type: "text", x: 0, y: 0, width: 10, height: 10, text: "", fontSize: 12, color: "#000", zIndex });
+
+const ids = (board: Parameters<typeof getOrderedElements>[0]) =>
+  getOrderedElements(board).map(({ element }) => element.id);
+
+// Apply zIndex changes and read the order back, bottom to top
+const applyAndOrder = (shapes: ShapeElement[], changes: Map<string, number>) =>
+  ids({
+    images: [],
+    lines: [],
+    shapes: shapes.map((item) => (changes.has(item.id) ? { ...item, zIndex: changes.get(item.id) } : item)),
+  });
+
+describe("getOrderedElements", () => {
+  it("orders elements by zIndex across kinds", () => {
+    expect(ids({
+      images: [image("i", 3)],
+      lines: [line("l", 0)],
+      shapes: [shape("s", 2)],
+      texts: [text("t", 1)],
+    })).toEqual(["l", "t", "s", "i"]);
+  });
+
+  it("keeps the old fixed order for elements without a zIndex", () => {
+    expect(ids({
+      images: [image("i")],
+      lines: [line("l")],
+      shapes: [shape("s")],
+      texts: [text("t")],
+    })).toEqual(["i", "l", "s", "t"]);
+  });
+
+  it("puts elements without a zIndex below stacked ones", () => {
+    expect(ids({ images: [image("i", 0)], lines: [], shapes: [shape("s")] })).toEqual(["s", "i"]);
+  });
+});
+
+describe("getNextZIndex", () => {
+  it("starts at 0 on an empty board", () => {
+    expect(getNextZIndex({ images: [], lines: [], shapes: [] })).toBe(0);
+  });
+
+  it("stacks above the highest value, rounding fractional ones down first", () => {
+    expect(getNextZIndex({ images: [image("i", 4)], lines: [line("l", 2.5)], shapes: [shape("s")] })).toBe(5);
+    expect(getNextZIndex({ images: [], lines: [], shapes: [shape("a", 1), shape("b", 1.5)] })).toBe(2);
+  });
+});
+
+describe("arrangeElements", () => {
+  const shapes = [shape("a", 0), shape("b", 1), shape("c", 2), shape("d", 3)];
+  const board = { images: [], lines: [], shapes };
+
+  it("brings elements to the front and back", () => {
+    expect(applyAndOrder(shapes, arrangeElements(board, ["a"], "front"))).toEqual(["b", "c", "d", "a"]);
+    expect(applyAndOrder(shapes, arrangeElements(board, ["c", "d"], "back"))).toEqual(["c", "d", "a", "b"]);
+  });
+
+  it("moves elements one step forward and backward", () => {
+    expect(applyAndOrder(shapes, arrangeElements(board, ["b"], "forward"))).toEqual(["a", "c", "b", "d"]);
+    expect(applyAndOrder(shapes, arrangeElements(board, ["c"], "backward"))).toEqual(["a", "c", "b", "d"]);
+  });
+
+  it("only rewrites the elements that move", () => {
+    const changes = arrangeElements(board, ["a"], "forward");
+    expect([...changes.keys()]).toEqual(["a"]);
+    expect(changes.get("a")).toBeGreaterThan(1);
+    expect(changes.get("a")).toBeLessThan(2);
+  });
+
+  it("changes nothing when the selection is already in place", () => {
+    expect(arrangeElements(board, ["d"], "front").size).toBe(0);
+  });
+
+  it("renumbers the board once the gap between neighbours runs out", () => {
+    const crowded = [shape("a", 0), shape("b", 1e-7), shape("c", 2e-7)];
+    const changes = arrangeElements({ images: [], lines: [], shapes: crowded }, ["c"], "backward");
+    expect(changes).toEqual(new Map([["b", 2], ["c", 1]]));
+  });
+});
+
+describe("moveElementsTo", () => {
+  const shapes = [shape("a", 0), shape("b", 1), shape("c", 2), shape("d", 3)];
+  const board = { images: [], lines: [], shapes };
+
+  it("moves elements above or below the target, keeping their order", () => {
+    expect(applyAndOrder(shapes, moveElementsTo(board, ["a", "b"], "d", "above"))).toEqual(["c", "d", "a", "b"]);
+    expect(applyAndOrder(shapes, moveElementsTo(board, ["d"], "b", "below"))).toEqual(["a", "d", "b", "c"]);
+  });
+
+  it("ignores a target that is being moved or does not exist", () => {
+    expect(moveElementsTo(board, ["a"], "a", "above").size).toBe(0);
+    expect(moveElementsTo(board, ["a"], "missing", "above").size).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+// -----------------------------------------------------------------------------
+// Stacking order shared by every element kind. Each element stores a `zIndex`;
+// higher values are drawn on top. Rearranging only rewrites the moved elements
+// by placing them between their new neighbours' values.
+// -----------------------------------------------------------------------------
+
+import type { ImageElement, LineElement, ShapeElement, TextElement } from "@/app/liveblocks.config";
+
+export type ArrangeAction = "forward" | "backward" | "front" | "back";
+
+export type OrderedElement =
+  | { kind: "image"; element: ImageElement }
+  | { kind: "line"; element: LineElement }
+  | { kind: "shape"; element: ShapeElement }
+  | { kind: "text"; element: TextElement };
+
+interface OrderedBoard {
+  images: readonly ImageElement[];
+  shapes: readonly ShapeElement[];
+  lines: readonly LineElement[];
+  texts?: readonly TextElement[];
+}
+
+// Smallest gap between neighbours before the whole board is renumbered
+const MIN_Z_GAP = 1e-6;
+
+// All elements bottom to top. Elements without a zIndex (boards saved before
+// it existed) keep the old fixed order: images, lines, shapes, then texts.
+export const getOrderedElements = (board: OrderedBoard): OrderedElement[] => {
+  const items: OrderedElement[] = [
+    ...board.images.map((element) => ({ kind: "image" as const, element })),
+    ...board.lines.map((element) => ({ kind: "line" as const, element })),
+    ...board.shapes.map((element) => ({ kind: "shape" as const, element })),
+    ...(board.texts ?? []).map((element) => ({ kind: "text" as const, element })),
+  ];
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      (a.item.element.zIndex ?? -Infinity) - (b.item.element.zIndex ?? -Infinity) || a.index - b.index
+    )
+    .map(({ item }) => item);
+};
+
+export const getNextZIndex = (board: OrderedBoard) => {
+  const values = getOrderedElements(board)
+    .map(({ element }) => element.zIndex)
+    .filter((value): value is number => value !== undefined);
+  return values.length > 0 ? Math.floor(Math.max(...values)) + 1 : 0;
+};
+
+const reorder = <T extends { selected: boolean }>(order: T[], action: ArrangeAction): T[] => {
+  const next = [...order];
+  switch (action) {
+    case "front":
+      return [...next.filter((item) => !item.selected), ...next.filter((item) => item.selected)];
+    case "back":
+      return [...next.filter((item) => item.selected), ...next.filter((item) => !item.selected)];
+    case "forward":
+      // Each selected element swaps with the unselected one just above it
+      for (let i = next.length - 2; i >= 0; i--) {
+        if (next[i].selected && !next[i + 1].selected) {
+          [next[i], next[i + 1]] = [next[i + 1], next[i]];
+        }
+      }
+      return next;
+    case "backward":
+      for (let i = 1; i < next.length; i++) {
+        if (next[i].selected && !next[i - 1].selected) {
+          [next[i], next[i - 1]] = [next[i - 1], next[i]];
+        }
+      }
+      return next;
+  }
+};
+
+// New zIndex values for the elements that move, keyed by id
+export const arrangeElements = (
+  board: OrderedBoard,
+  selectedIds: string[],
+  action: ArrangeAction
+): Map<string, number> => placeMovedElements(reorder(getStackingOrder(board, selectedIds), action));
+
+// Move elements directly above or below `targetId`, keeping their order among
+// themselves (drag and drop in the layers panel)
+export const moveElementsTo = (
+  board: OrderedBoard,
+  movedIds: string[],
+  targetId: string,
+  position: "above" | "below"
+): Map<string, number> => {
+  if (movedIds.includes(targetId)) return new Map();
+  const order = getStackingOrder(board, movedIds);
+  const moved = order.filter((item) => item.selected);
+  const rest = order.filter((item) => !item.selected);
+  const targetIndex = rest.findIndex((item) => item.id === targetId);
+  if (targetIndex === -1) return new Map();
+
+  const insertAt = position === "above" ? targetIndex + 1 : targetIndex;
+  return placeMovedElements([...rest.slice(0, insertAt), ...moved, ...rest.slice(insertAt)]);
+};
+
+const getStackingOrder = (board: OrderedBoard, selectedIds: string[]) =>
+  getOrderedElements(board).map(({ element }, index) => ({
+    id: element.id,
+    z: element.zIndex ?? index,
+    selected: selectedIds.includes(element.id),
+  }));
+
+// Place every run of moved elements evenly between its new neighbours
+const placeMovedElements = (order: { id: string; z: number; selected: boolean }[]) => {
+  const changes = new Map<string, number>();
+  for (let start = 0; start < order.length; start++) {
+    if (!order[start].selected) continue;
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].selected) end++;
+
+    const count = end - start + 1;
+    const lower = order[start - 1]?.z;
+    const upper = order[end + 1]?.z;
+    if (lower !== undefined || upper !== undefined) {
+      const low = lower ?? upper! - (count + 1);
+      const high = upper ?? low + count + 1;
+      const run = order.slice(start, end + 1);
+      const isInPlace = run.every((item, i) =>
+        item.z > low && item.z < high && (i === 0 || item.z > run[i - 1].z)
+      );
+      if (!isInPlace) {
+        if ((high - low) / (count + 1) < MIN_Z_GAP) {
+          return renumber(order);
+        }
+        run.forEach((item, i) => {
+          changes.set(item.id, low + ((high - low) * (i + 1)) / (count + 1));
+        });
+      }
+    }
+    start = end;
+  }
+  return changes;
+};
+
+// Fallback when repeated moves exhaust the gap between two neighbours
+const renumber = (order: { id: string; z: number }[]) => {
+  const changes = new Map<string, number>();
+  order.forEach((item, index) => {
+    if (item.z !== index) changes.set(item.id, index);
+  });
+  return changes;
+};
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, readSessionToken } from "./app/utils/session";
+
+// Everything except signing in needs a session. Pages redirect to sign-in,
+// API routes answer 401. Per-board roles are checked in the routes.
+export async function middleware(request: NextRequest) {
+  const user = await readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (user) return NextResponse.next();
+
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+  const signInUrl = new URL("/api/auth/signin", request.nextUrl.origin);
+  signInUrl.searchParams.set("callbackUrl", `${pathname}${search}`);
+  return NextResponse.redirect(signInUrl);
+}
+
+export const config = {
+  // Skip sign-in itself, the stand-in identity provider and static files
+  matcher: ["/((?!api/auth/|api/dev-idp/|_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|webp)$).*)"],
+};
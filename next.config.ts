@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
- 
+  // Native module used by the export route, load it at runtime instead of bundling
+  serverExternalPackages: ["canvas"],
 };
 
 export default nextConfig;